@@ -0,0 +1,137 @@
+import { getConnection } from "typeorm";
+import { revokeSessions } from "./auth/sessions";
+import { Identity } from "./entities/Identity";
+import { Match } from "./entities/Match";
+import { Message } from "./entities/Message";
+import { Report } from "./entities/Report";
+import { User } from "./entities/User";
+import { View } from "./entities/View";
+
+// the only parts of the user row that go in an export, anything added to User
+// stays out until it's listed here
+const exportedUserFields = [
+  "id",
+  "username",
+  "displayName",
+  "bio",
+  "goal",
+  "gender",
+  "genderToShow",
+  "birthday",
+  "ageRangeMin",
+  "ageRangeMax",
+  "location",
+  "cityId",
+  "latitude",
+  "longitude",
+  "maxDistanceKm",
+  "codeImgIds",
+  "profileUrl",
+  "photoUrl",
+  "numLikes",
+  "global",
+  "flair",
+  "notifyMatches",
+  "notifyMessages",
+  "notifyLikes",
+  "quietHoursStart",
+  "quietHoursEnd",
+  "timezone",
+  "compatibilityScoring",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+// Deletion policy: the user row goes away along with everything that cascades
+// from it (views, matches, blocks, reports they filed, queued push
+// notifications). Every message they sent or received is deleted too, so the
+// other side of each conversation loses it along with the match. Moderation
+// history is kept but no longer points at them.
+//
+// Returns the ids of the people they were matched with so their clients can
+// drop the conversation.
+export const deleteAccount = async (userId: string) => {
+  const matches = await Match.find({
+    where: [{ userId1: userId }, { userId2: userId }],
+  });
+
+  // anything holding an old refresh token stops working right away even if
+  // the delete below fails, and their connected devices get disconnected
+  await User.update(userId, {
+    tokenVersion: () => '"tokenVersion" + 1',
+  });
+  await revokeSessions(userId);
+  await getConnection().transaction(async (em) => {
+    await em
+      .createQueryBuilder()
+      .delete()
+      .from(Message)
+      .where(`"senderId" = :userId or "recipientId" = :userId`, { userId })
+      .execute();
+    await em.delete(User, userId);
+  });
+
+  return matches.map((m) => (m.userId1 === userId ? m.userId2 : m.userId1));
+};
+
+export const exportAccount = async (userId: string) => {
+  const user = await User.findOne(userId);
+  if (!user) {
+    return undefined;
+  }
+
+  const profile: Partial<User> = {};
+  exportedUserFields.forEach((k) => {
+    (profile as any)[k] = user[k];
+  });
+
+  const [identities, views, matches, messages, reports] = await Promise.all([
+    Identity.find({ userId }),
+    View.find({ viewerId: userId }),
+    Match.find({ where: [{ userId1: userId }, { userId2: userId }] }),
+    Message.find({
+      where: [{ senderId: userId }, { recipientId: userId }],
+      order: { createdAt: "ASC" },
+    }),
+    Report.find({ reporterId: userId }),
+  ]);
+
+  return {
+    exportedAt: new Date(),
+    profile,
+    identities: identities.map(({ provider, username }) => ({
+      provider,
+      username,
+    })),
+    views: views.map(({ targetId, liked }) => ({ targetId, liked })),
+    matches: matches.map((m) => ({
+      matchId: m.id,
+      userId: m.userId1 === userId ? m.userId2 : m.userId1,
+      unmatched: m.unmatched,
+      createdAt: m.createdAt,
+    })),
+    // whatever was deleted is gone for them too
+    messages: messages
+      .filter((m) => !m.deletedAt)
+      .map((m) => ({
+        id: m.id,
+        matchId: m.matchId,
+        senderId: m.senderId,
+        recipientId: m.recipientId,
+        type: m.type,
+        text: m.text,
+        code: m.code,
+        language: m.language,
+        filename: m.filename,
+        createdAt: new Date(m.createdAt),
+        editedAt: m.editedAt,
+        readAt: m.readAt,
+      })),
+    reportsFiled: reports.map((r) => ({
+      targetId: r.targetId,
+      message: r.message,
+      status: r.status,
+      createdAt: new Date(r.createdAt),
+    })),
+  };
+};
@@ -0,0 +1,258 @@
+import createError from "http-errors";
+import { getConnection } from "typeorm";
+import { Identity, LoginProvider } from "./entities/Identity";
+import { Match } from "./entities/Match";
+import { User } from "./entities/User";
+import { refreshLastMessage } from "./queries/refreshLastMessage";
+import { getUserIdOrder } from "./utils";
+
+export type IdentityData = Pick<
+  Partial<Identity>,
+  "accessToken" | "username" | "profileUrl"
+>;
+
+// Folds fromId into intoId and deletes fromId. Views, matches, messages,
+// reactions, blocks, reports and logins move over. When both accounts had something
+// with the same person, intoId's copy wins: its view and match are kept and the
+// messages from fromId's match are moved into it. Whatever the two accounts had
+// with each other is dropped.
+export const mergeAccounts = async (intoId: string, fromId: string) => {
+  const [into, from] = await Promise.all([
+    User.findOne(intoId),
+    User.findOne(fromId),
+  ]);
+  if (!into || !from || into.id === from.id) {
+    throw createError(400, "can't merge those accounts");
+  }
+  if (into.banned || from.banned) {
+    throw createError(403, "this account has been banned");
+  }
+
+  const keptMatchIds: string[] = [];
+  await getConnection().transaction(async (em) => {
+    const q = (sql: string) => em.query(sql, [intoId, fromId]);
+
+    await q(`
+      delete from message
+      where ("senderId" = $1 and "recipientId" = $2)
+      or ("senderId" = $2 and "recipientId" = $1)
+    `);
+    await q(`
+      delete from match
+      where ("userId1" = $1 and "userId2" = $2)
+      or ("userId1" = $2 and "userId2" = $1)
+    `);
+    await q(`
+      delete from view
+      where ("viewerId" = $1 and "targetId" = $2)
+      or ("viewerId" = $2 and "targetId" = $1)
+    `);
+    await q(`
+      delete from block
+      where ("blockerId" = $1 and "blockedId" = $2)
+      or ("blockerId" = $2 and "blockedId" = $1)
+    `);
+    await q(`
+      delete from report
+      where ("reporterId" = $1 and "targetId" = $2)
+      or ("reporterId" = $2 and "targetId" = $1)
+    `);
+
+    await q(`
+      update view v set "viewerId" = $1
+      where "viewerId" = $2 and not exists (
+        select 1 from view v2 where v2."viewerId" = $1 and v2."targetId" = v."targetId"
+      )
+    `);
+    await q(`
+      update view v set "targetId" = $1
+      where "targetId" = $2 and not exists (
+        select 1 from view v2 where v2."targetId" = $1 and v2."viewerId" = v."viewerId"
+      )
+    `);
+    await q(`
+      update block b set "blockerId" = $1
+      where "blockerId" = $2 and not exists (
+        select 1 from block b2 where b2."blockerId" = $1 and b2."blockedId" = b."blockedId"
+      )
+    `);
+    await q(`
+      update block b set "blockedId" = $1
+      where "blockedId" = $2 and not exists (
+        select 1 from block b2 where b2."blockedId" = $1 and b2."blockerId" = b."blockerId"
+      )
+    `);
+
+    const matches = await em.find(Match, {
+      where: [{ userId1: fromId }, { userId2: fromId }],
+    });
+    for (const m of matches) {
+      const fromIs1 = m.userId1 === fromId;
+      const otherId = fromIs1 ? m.userId2 : m.userId1;
+      const ids = getUserIdOrder(intoId, otherId);
+      const existing = await em.findOne(Match, ids);
+      if (existing) {
+        await em.query(
+          `update message set "matchId" = $1 where "matchId" = $2`,
+          [existing.id, m.id]
+        );
+        // an unmatch on either side sticks
+        await em.query(
+          `
+          update match set
+          "lastMessageAt" = greatest("lastMessageAt", $2),
+          "lastActivityAt" = greatest("lastActivityAt", $3),
+          unmatched = unmatched or $4
+          where id = $1
+        `,
+          [existing.id, m.lastMessageAt, m.lastActivityAt, m.unmatched]
+        );
+        await em.delete(Match, m.id);
+        keptMatchIds.push(existing.id);
+      } else {
+        // read1/read2 follow the user ids, which might swap places
+        const fromRead = fromIs1 ? m.read1 : m.read2;
+        const otherRead = fromIs1 ? m.read2 : m.read1;
+        await em.update(Match, m.id, {
+          ...ids,
+          read1: ids.userId1 === intoId ? fromRead : otherRead,
+          read2: ids.userId2 === intoId ? fromRead : otherRead,
+        });
+      }
+    }
+
+    await q(`update message set "senderId" = $1 where "senderId" = $2`);
+    await q(`update message set "recipientId" = $1 where "recipientId" = $2`);
+    await q(`
+      update message_reaction r set "userId" = $1
+      where "userId" = $2 and not exists (
+        select 1 from message_reaction r2
+        where r2."userId" = $1 and r2."messageId" = r."messageId" and r2.emoji = r.emoji
+      )
+    `);
+    await q(`update report set "reporterId" = $1 where "reporterId" = $2`);
+    await q(`update report set "targetId" = $1 where "targetId" = $2`);
+    await q(
+      `update moderation_action set "targetId" = $1 where "targetId" = $2`
+    );
+
+    // one login per provider, intoId's wins
+    await q(`
+      update identity i set "userId" = $1
+      where "userId" = $2 and not exists (
+        select 1 from identity i2 where i2."userId" = $1 and i2.provider = i.provider
+      )
+    `);
+
+    // unique, the old row has to let go of it first
+    await em.update(User, fromId, { username: null });
+    await em.update(User, intoId, {
+      username: into.username || from.username,
+      shadowBanned: into.shadowBanned || from.shadowBanned,
+    });
+    await em.query(
+      `
+      update "user" set "numLikes" = (
+        select count(*) from view where "targetId" = $1 and liked
+      )
+      where id = $1
+    `,
+      [intoId]
+    );
+    await em.delete(User, fromId);
+  });
+
+  await Promise.all(keptMatchIds.map((id) => refreshLastMessage(id)));
+};
+
+// logs in with a provider identity, signing up when it's new. newUser is only
+// called for sign ups
+export const findOrCreateUserForIdentity = async (
+  provider: LoginProvider,
+  providerId: string,
+  data: IdentityData,
+  newUser: () => Partial<User>
+) => {
+  const identity = await Identity.findOne({ provider, providerId });
+  if (identity) {
+    const user = (await User.findOne(identity.userId))!;
+    if (user.banned) {
+      throw createError(403, "this account has been banned");
+    }
+    await Identity.update({ provider, providerId }, data);
+    return { user, created: false };
+  }
+
+  const user = await getConnection().transaction(async (em) => {
+    const u = await em.save(em.create(User, newUser()));
+    await em.insert(Identity, { ...data, provider, providerId, userId: u.id });
+    return u;
+  });
+
+  return { user, created: true };
+};
+
+// attaches a provider identity to userId. if it's already the login of another
+// account, that account gets merged in when merge is set and it's a conflict
+// otherwise. returns the id of the merged account
+export const linkProvider = async (
+  userId: string,
+  provider: LoginProvider,
+  providerId: string,
+  data: IdentityData,
+  { merge = false }: { merge?: boolean } = {}
+) => {
+  const mine = await Identity.findOne({ userId, provider });
+  if (mine && mine.providerId !== providerId) {
+    throw createError(
+      409,
+      `your account is already linked to a different ${provider} account, unlink it first`
+    );
+  }
+
+  let mergedUserId: string | null = null;
+  const owner = await Identity.findOne({ provider, providerId });
+  if (owner && owner.userId !== userId) {
+    if (!merge) {
+      throw createError(
+        409,
+        `that ${provider} account is already used by another account, link it with merge to combine the two`
+      );
+    }
+    await mergeAccounts(userId, owner.userId);
+    mergedUserId = owner.userId;
+  }
+
+  if (owner) {
+    await Identity.update({ provider, providerId }, { ...data, userId });
+  } else {
+    await Identity.insert({ ...data, provider, providerId, userId });
+  }
+
+  return mergedUserId;
+};
+
+export const unlinkProvider = async (
+  userId: string,
+  provider: LoginProvider
+) => {
+  const identities = await Identity.find({ userId });
+  if (!identities.some((x) => x.provider === provider)) {
+    throw createError(400, `your account isn't linked to ${provider}`);
+  }
+  if (identities.length < 2) {
+    throw createError(400, "you can't unlink your only way to log in");
+  }
+
+  await Identity.delete({ userId, provider });
+};
+
+export const listIdentities = async (userId: string) =>
+  (await Identity.find({ where: { userId }, order: { createdAt: "ASC" } })).map(
+    ({ provider, username, profileUrl, createdAt }) => ({
+      provider,
+      username,
+      profileUrl,
+      createdAt,
+    })
+  );
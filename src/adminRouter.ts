@@ -0,0 +1,235 @@
+import Router from "express-promise-router";
+import createError from "http-errors";
+import { assert } from "superstruct";
+import { getConnection } from "typeorm";
+import { isAdmin } from "./auth/isAdmin";
+import { isAuth } from "./auth/isAuth";
+import { ModerationAction } from "./entities/ModerationAction";
+import { User } from "./entities/User";
+import { ban, closeReport, shadowBan, unban } from "./moderation";
+import {
+  AdminActionsQueryStruct,
+  AdminReportsQueryStruct,
+  ModerationNoteStruct,
+  ModerationReasonStruct,
+  OneModerationActionStruct,
+  OneReportStruct,
+  OneUserStruct,
+} from "./validation";
+
+const PAGE_SIZE = 50;
+
+export const createAdminRouter = () => {
+  const router = Router();
+  router.use(isAuth(), isAdmin());
+
+  // open reports grouped by who they are against, worst offenders first
+  router.get("/reports", async (req: any, res, next) => {
+    const query = {
+      status: req.query.status || "open",
+      page: req.query.page ? parseInt(req.query.page) : 0,
+    };
+    try {
+      assert(query, AdminReportsQueryStruct);
+    } catch (err) {
+      next(createError(400, err.message));
+      return;
+    }
+
+    res.send({
+      targets: await getConnection().query(
+        `
+        select r."targetId", u."displayName", u."photoUrl", u."codeImgIds", u."shadowBanned", u.banned,
+        count(*)::int "numReports",
+        count(distinct r."reporterId")::int "numReporters",
+        exists (
+          select 1 from moderation_action a
+          where a."targetId" = r."targetId" and a.action = 'flag-for-review'
+        ) "flaggedForReview",
+        date_part('epoch', max(r."createdAt")) * 1000 "lastReportedAt",
+        json_agg(json_build_object(
+          'id', r.id,
+          'reporterId', r."reporterId",
+          'message', r.message,
+          'createdAt', date_part('epoch', r."createdAt") * 1000
+        ) order by r."createdAt" desc) reports
+        from report r
+        inner join "user" u on u.id = r."targetId"
+        where r.status = $1
+        group by r."targetId", u.id
+        order by count(distinct r."reporterId") desc, max(r."createdAt") desc
+        limit ${PAGE_SIZE} offset $2
+      `,
+        [query.status, query.page * PAGE_SIZE]
+      ),
+    });
+  });
+
+  router.get("/users/:id/reports", async (req: any, res, next) => {
+    try {
+      assert(req.params, OneUserStruct);
+    } catch (err) {
+      next(createError(400, err.message));
+      return;
+    }
+
+    const user = await User.findOne(req.params.id);
+    if (!user) {
+      next(createError(404, "user not found"));
+      return;
+    }
+
+    const [against, filed] = await Promise.all(
+      ["targetId", "reporterId"].map((column) =>
+        getConnection().query(
+          `
+          select id, "reporterId", "targetId", message, status, "resolvedById", "resolutionNote",
+          date_part('epoch', "createdAt") * 1000 "createdAt",
+          date_part('epoch', "resolvedAt") * 1000 "resolvedAt"
+          from report
+          where "${column}" = $1
+          order by "createdAt" desc
+        `,
+          [user.id]
+        )
+      )
+    );
+
+    res.send({
+      user: {
+        id: user.id,
+        displayName: user.displayName,
+        shadowBanned: user.shadowBanned,
+        banned: user.banned,
+      },
+      against,
+      filed,
+    });
+  });
+
+  for (const [path, status] of [
+    ["resolve", "resolved"],
+    ["dismiss", "dismissed"],
+  ] as const) {
+    router.post(`/reports/:id/${path}`, async (req: any, res, next) => {
+      try {
+        assert(req.params, OneReportStruct);
+        assert(req.body, ModerationNoteStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const { report, alreadyClosed } = await closeReport(
+        req.params.id,
+        status,
+        {
+          moderatorId: req.userId,
+          note: req.body.note,
+        }
+      );
+      if (!report) {
+        next(createError(404, "report not found"));
+        return;
+      }
+      if (alreadyClosed) {
+        next(createError(409, "someone already handled this report"));
+        return;
+      }
+
+      res.send({ ok: true });
+    });
+  }
+
+  for (const [path, action] of [
+    ["shadow-ban", shadowBan],
+    ["ban", ban],
+    ["unban", unban],
+  ] as const) {
+    router.post(`/users/:id/${path}`, async (req: any, res, next) => {
+      try {
+        assert(req.params, OneUserStruct);
+        assert(req.body, ModerationReasonStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      if (!(await User.findOne(req.params.id))) {
+        next(createError(404, "user not found"));
+        return;
+      }
+
+      await action(req.params.id, {
+        moderatorId: req.userId,
+        reason: req.body.reason,
+      });
+
+      res.send({ ok: true });
+    });
+  }
+
+  // undoes a ban or shadow ban, including ones the auto moderation made
+  router.post("/actions/:id/revert", async (req: any, res, next) => {
+    try {
+      assert(req.params, OneModerationActionStruct);
+      assert(req.body, ModerationReasonStruct);
+    } catch (err) {
+      next(createError(400, err.message));
+      return;
+    }
+
+    const action = await ModerationAction.findOne(req.params.id);
+    if (!action) {
+      next(createError(404, "action not found"));
+      return;
+    }
+    if (
+      !action.targetId ||
+      (action.action !== "shadow-ban" && action.action !== "ban")
+    ) {
+      next(createError(400, "only bans can be reverted"));
+      return;
+    }
+
+    await unban(action.targetId, {
+      moderatorId: req.userId,
+      reason: req.body.reason,
+      reportId: action.reportId,
+      revertsActionId: action.id,
+    });
+
+    res.send({ ok: true });
+  });
+
+  router.get("/actions", async (req: any, res, next) => {
+    const query = {
+      targetId: req.query.targetId,
+      page: req.query.page ? parseInt(req.query.page) : 0,
+    };
+    try {
+      assert(query, AdminActionsQueryStruct);
+    } catch (err) {
+      next(createError(400, err.message));
+      return;
+    }
+
+    res.send({
+      actions: await getConnection().query(
+        `
+        select id, action, "moderatorId", "slackUser", "targetId", "reportId", reason, automatic, "revertsActionId",
+        date_part('epoch', "createdAt") * 1000 "createdAt"
+        from moderation_action
+        ${query.targetId ? `where "targetId" = $2` : ""}
+        order by "createdAt" desc
+        limit ${PAGE_SIZE} offset $1
+      `,
+        query.targetId
+          ? [query.page * PAGE_SIZE, query.targetId]
+          : [query.page * PAGE_SIZE]
+      ),
+    });
+  });
+
+  return router;
+};
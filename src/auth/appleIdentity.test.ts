@@ -0,0 +1,96 @@
+import { generateKeyPairSync } from "crypto";
+import { sign } from "jsonwebtoken";
+import {
+  AppleJwk,
+  APPLE_ISSUER,
+  createAppleKeyStore,
+  verifyAppleIdentityToken,
+} from "./appleIdentity";
+
+const AUDIENCE = "com.vsinder.app";
+const NONCE = "nonce";
+
+const createKey = (kid: string) => {
+  const { publicKey, privateKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  // the node typings here predate jwk exports
+  const { n, e } = (publicKey as any).export({ format: "jwk" });
+  const jwk: AppleJwk = { kty: "RSA", kid, alg: "RS256", use: "sig", n, e };
+  return { jwk, privateKey };
+};
+
+const appleKey = createKey("apple-1");
+const otherKey = createKey("apple-2");
+// the same kid as apple's, but nobody at apple has the private key
+const forgedKey = createKey("apple-1");
+
+const signToken = (
+  { privateKey, jwk }: ReturnType<typeof createKey>,
+  claims: Record<string, unknown> = {},
+  expiresIn: string | number = "10m"
+) =>
+  sign(
+    {
+      sub: "apple-user",
+      nonce: NONCE,
+      iss: APPLE_ISSUER,
+      aud: AUDIENCE,
+      ...claims,
+    },
+    privateKey.export({ type: "pkcs8", format: "pem" }),
+    { algorithm: "RS256", keyid: jwk.kid, expiresIn }
+  );
+
+const verifyWith = (keys: AppleJwk[], token: string, nonce = NONCE) => {
+  const { getKey } = createAppleKeyStore(async () => ({ keys }));
+  return verifyAppleIdentityToken(token, {
+    nonce,
+    audience: [AUDIENCE],
+    getKey,
+  });
+};
+
+describe("verifyAppleIdentityToken", () => {
+  it("accepts a token signed with one of apple's keys", async () => {
+    const identity = await verifyWith(
+      [otherKey.jwk, appleKey.jwk],
+      signToken(appleKey, { email: "a@b.c" })
+    );
+    expect(identity.sub).toBe("apple-user");
+    expect(identity.email).toBe("a@b.c");
+  });
+
+  it("rejects a kid apple doesn't have", async () => {
+    await expect(
+      verifyWith([appleKey.jwk], signToken(otherKey))
+    ).rejects.toThrow("unknown key");
+  });
+
+  it("rejects a signature that doesn't match the kid's key", async () => {
+    await expect(
+      verifyWith([appleKey.jwk], signToken(forgedKey))
+    ).rejects.toThrow("invalid signature");
+  });
+
+  it("rejects tokens for someone else, from someone else or expired", async () => {
+    await expect(
+      verifyWith([appleKey.jwk], signToken(appleKey, { aud: "com.other.app" }))
+    ).rejects.toThrow("jwt audience invalid");
+    await expect(
+      verifyWith(
+        [appleKey.jwk],
+        signToken(appleKey, { iss: "https://example.com" })
+      )
+    ).rejects.toThrow("jwt issuer invalid");
+    await expect(
+      verifyWith([appleKey.jwk], signToken(appleKey, {}, -60))
+    ).rejects.toThrow("jwt expired");
+  });
+
+  it("rejects a token for another nonce", async () => {
+    await expect(
+      verifyWith([appleKey.jwk], signToken(appleKey), "another nonce")
+    ).rejects.toThrow("nonce");
+  });
+});
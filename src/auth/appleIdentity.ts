@@ -0,0 +1,147 @@
+import { createPublicKey } from "crypto";
+import createError from "http-errors";
+import { decode, verify } from "jsonwebtoken";
+import fetch from "node-fetch";
+
+export const APPLE_ISSUER = "https://appleid.apple.com";
+const APPLE_KEYS_URL = "https://appleid.apple.com/auth/keys";
+const KEYS_CACHE_MS = 6 * 60 * 60 * 1000;
+// apple rotates its keys, an unknown kid refetches them but not more than this often
+const MIN_REFETCH_MS = 60 * 1000;
+
+export interface AppleJwk {
+  kty: string;
+  kid: string;
+  alg?: string;
+  use?: string;
+  n: string;
+  e: string;
+}
+
+export interface AppleIdentity {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | "true" | "false";
+  nonce?: string;
+  exp: number;
+}
+
+const derLength = (len: number) => {
+  if (len < 0x80) {
+    return Buffer.from([len]);
+  }
+  const bytes: number[] = [];
+  while (len > 0) {
+    bytes.unshift(len & 0xff);
+    len >>= 8;
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+};
+
+const derInteger = (base64url: string) => {
+  let bytes = Buffer.from(base64url, "base64");
+  // keep it positive
+  if (bytes[0] & 0x80) {
+    bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  }
+  return Buffer.concat([Buffer.from([0x02]), derLength(bytes.length), bytes]);
+};
+
+// node 12 can't import a jwk directly, so build the pkcs1 der for the rsa key
+export const jwkToPem = (jwk: AppleJwk) => {
+  const body = Buffer.concat([derInteger(jwk.n), derInteger(jwk.e)]);
+  const der = Buffer.concat([
+    Buffer.from([0x30]),
+    derLength(body.length),
+    body,
+  ]);
+  return createPublicKey({ key: der, format: "der", type: "pkcs1" }).export({
+    type: "spki",
+    format: "pem",
+  }) as string;
+};
+
+const fetchAppleKeys = async (): Promise<{ keys: AppleJwk[] }> => {
+  const r = await fetch(process.env.APPLE_KEYS_URL || APPLE_KEYS_URL);
+  if (!r.ok) {
+    throw new Error(`fetching apple keys failed with ${r.status}`);
+  }
+  return r.json();
+};
+
+// fetchKeys can be swapped for a local key set
+export const createAppleKeyStore = (fetchKeys = fetchAppleKeys) => {
+  let pems: Record<string, string> = {};
+  let fetchedAt = 0;
+
+  const getKey = async (kid: string) => {
+    const age = Date.now() - fetchedAt;
+    if (age > KEYS_CACHE_MS || (!(kid in pems) && age > MIN_REFETCH_MS)) {
+      const { keys } = await fetchKeys();
+      const next: Record<string, string> = {};
+      keys
+        .filter((k) => k.kty === "RSA")
+        .forEach((k) => {
+          next[k.kid] = jwkToPem(k);
+        });
+      pems = next;
+      fetchedAt = Date.now();
+    }
+
+    return pems[kid] || null;
+  };
+
+  return { getKey };
+};
+
+// the native app's token is for the bundle id, the web flow's for the service id
+export const appleAudiences = () =>
+  [process.env.APPLE_BUNDLE_ID, process.env.APPLE_SERVICE_ID].filter(
+    (x): x is string => !!x
+  );
+
+export const verifyAppleIdentityToken = async (
+  identityToken: string,
+  {
+    nonce,
+    audience = appleAudiences(),
+    getKey,
+  }: {
+    nonce: string;
+    audience?: string[];
+    getKey: (kid: string) => Promise<string | null>;
+  }
+): Promise<AppleIdentity> => {
+  if (!audience.length) {
+    throw new Error("APPLE_BUNDLE_ID or APPLE_SERVICE_ID has to be set");
+  }
+
+  const decoded = decode(identityToken, { complete: true }) as any;
+  const kid = decoded?.header?.kid;
+  if (typeof kid !== "string") {
+    throw createError(401, "invalid apple identity token");
+  }
+
+  const key = await getKey(kid);
+  if (!key) {
+    throw createError(401, "apple identity token signed with an unknown key");
+  }
+
+  let payload: AppleIdentity;
+  try {
+    // also checks exp
+    payload = verify(identityToken, key, {
+      algorithms: ["RS256"],
+      issuer: APPLE_ISSUER,
+      audience,
+    }) as AppleIdentity;
+  } catch (err) {
+    throw createError(401, "invalid apple identity token: " + err.message);
+  }
+
+  if (!payload.sub || payload.nonce !== nonce) {
+    throw createError(401, "invalid apple identity token nonce");
+  }
+
+  return payload;
+};
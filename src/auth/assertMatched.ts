@@ -0,0 +1,15 @@
+import createError from "http-errors";
+import { getActiveMatch } from "../queries/getActiveMatch";
+import { isBlocked } from "../queries/isBlocked";
+
+export const assertMatched = async (userId: string, otherUserId: string) => {
+  const [match, blocked] = await Promise.all([
+    getActiveMatch(userId, otherUserId),
+    isBlocked(userId, otherUserId),
+  ]);
+  if (!match || blocked) {
+    throw createError(403, "you are not matched with this user");
+  }
+
+  return match;
+};
@@ -1,16 +1,52 @@
 import { sign } from "jsonwebtoken";
+import { Session } from "../entities/Session";
 import { User } from "../entities/User";
+import { newRefreshTokenId } from "./sessions";
+
+export interface SessionInfo {
+  // refreshing keeps the session, logging in starts a new one
+  sessionId?: string;
+  // which refresh token of the session to hand out, see rotateRefreshToken
+  refreshTokenId?: string | null;
+  device?: string | null;
+  ip?: string | null;
+}
+
+export const createTokens = async (
+  user: User,
+  {
+    sessionId,
+    refreshTokenId = null,
+    device = null,
+    ip = null,
+  }: SessionInfo = {}
+) => {
+  if (!sessionId) {
+    refreshTokenId = newRefreshTokenId();
+    sessionId = (
+      await Session.create({
+        userId: user.id,
+        device,
+        ip,
+        refreshTokenId,
+      }).save()
+    ).id;
+  }
 
-export const createTokens = (user: User) => {
   const refreshToken = sign(
-    { userId: user.id, tokenVersion: user.tokenVersion },
+    {
+      userId: user.id,
+      tokenVersion: user.tokenVersion,
+      sessionId,
+      refreshTokenId,
+    },
     process.env.REFRESH_TOKEN_SECRET,
     {
       expiresIn: "14d",
     }
   );
   const accessToken = sign(
-    { userId: user.id },
+    { userId: user.id, sessionId },
     process.env.ACCESS_TOKEN_SECRET,
     {
       expiresIn: "15min",
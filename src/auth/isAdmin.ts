@@ -0,0 +1,14 @@
+import { RequestHandler } from "express";
+import createError from "http-errors";
+import { User } from "../entities/User";
+
+// has to run after isAuth
+export const isAdmin: () => RequestHandler<{}, any, any, {}> =
+  () => async (req, _, next) => {
+    const user = await User.findOne((req as any).userId);
+    if (!user || user.role !== "admin") {
+      return next(createError(403, "not authorized"));
+    }
+
+    next();
+  };
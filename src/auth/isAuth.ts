@@ -1,8 +1,7 @@
 import { RequestHandler } from "express";
-import { verify } from "jsonwebtoken";
 import createError from "http-errors";
-import { User } from "../entities/User";
-import { createTokens } from "./createTokens";
+import { getSessionInfo } from "./sessions";
+import { verifyTokens } from "./verifyTokens";
 
 export const isAuth: (st?: boolean) => RequestHandler<{}, any, any, {}> = (
   shouldThrow = true
@@ -14,41 +13,24 @@ export const isAuth: (st?: boolean) => RequestHandler<{}, any, any, {}> = (
     );
   }
 
-  try {
-    const data = verify(accessToken, process.env.ACCESS_TOKEN_SECRET) as any;
-    (req as any).userId = data.userId;
-    return next();
-  } catch {}
-
   const refreshToken = req.headers["refresh-token"];
-  if (!refreshToken || typeof refreshToken !== "string") {
+  const verified = await verifyTokens(
+    accessToken,
+    typeof refreshToken === "string" ? refreshToken : undefined,
+    { rotate: true, sessionInfo: getSessionInfo(req) }
+  );
+  if (!verified) {
     return next(
       !shouldThrow ? undefined : createError(401, "not authenticated")
     );
   }
 
-  let data;
-  try {
-    data = verify(refreshToken, process.env.REFRESH_TOKEN_SECRET) as any;
-  } catch {
-    return next(
-      !shouldThrow ? undefined : createError(401, "not authenticated")
-    );
+  if (verified.tokens) {
+    res.setHeader("refresh-token", verified.tokens.refreshToken);
+    res.setHeader("access-token", verified.tokens.accessToken);
   }
-
-  const user = await User.findOne(data.userId);
-  // token has been invalidated or user deleted
-  if (!user || user.tokenVersion !== data.tokenVersion) {
-    return next(
-      !shouldThrow ? undefined : createError(401, "not authenticated")
-    );
-  }
-
-  const tokens = createTokens(user);
-
-  res.setHeader("refresh-token", tokens.refreshToken);
-  res.setHeader("access-token", tokens.accessToken);
-  (req as any).userId = data.userId;
+  (req as any).userId = verified.userId;
+  (req as any).sessionId = verified.sessionId;
 
   next();
 };
@@ -0,0 +1,237 @@
+import { randomBytes } from "crypto";
+import { Request } from "express";
+import createError from "http-errors";
+import { Redis } from "ioredis";
+import passport from "passport";
+import { Strategy as BitbucketStrategy } from "passport-bitbucket-oauth2";
+import { Strategy as GitHubStrategy } from "passport-github";
+import { Strategy as GitLabStrategy } from "passport-gitlab2";
+import {
+  findOrCreateUserForIdentity,
+  IdentityData,
+  linkProvider,
+} from "../accountLinking";
+import { LoginProvider } from "../entities/Identity";
+import { User } from "../entities/User";
+import { createTokens } from "./createTokens";
+import { getSessionInfo } from "./sessions";
+
+export type OAuthProvider = Exclude<LoginProvider, "apple">;
+
+interface OAuthProfile {
+  id: string;
+  displayName?: string;
+  username?: string;
+  profileUrl?: string;
+  photos?: Array<{ value: string }>;
+  _json: any;
+}
+
+// state is what the login started with, it comes back to the callback
+export const parseOAuthState = (
+  state: unknown
+): { rn?: boolean; link?: string } => {
+  try {
+    return JSON.parse(Buffer.from(String(state), "base64").toString());
+  } catch {
+    return {};
+  }
+};
+
+// Linking goes through the browser, and anyone can open a link url someone
+// else started. So finishing the login only parks the identity under a one
+// time code that goes back to the app, and the account that started the link
+// has to confirm it with that code before anything gets attached.
+const LINK_TTL_SECONDS = 10 * 60;
+const linkStartKey = (nonce: string) => `oauth-link/start/${nonce}`;
+const linkPendingKey = (code: string) => `oauth-link/pending/${code}`;
+
+interface PendingLink {
+  userId: string;
+  provider: OAuthProvider;
+  providerId: string;
+  data: IdentityData;
+  merge: boolean;
+}
+
+// reads and deletes in one go so every key only works once
+const takeKey = async (redisClient: Redis, key: string) => {
+  const [[, value]] = await redisClient.multi().get(key).del(key).exec();
+  return value ? JSON.parse(value) : null;
+};
+
+// the nonce goes in the url the app opens to start linking
+export const startOAuthLink = async (
+  redisClient: Redis,
+  userId: string,
+  provider: OAuthProvider,
+  merge: boolean
+) => {
+  const nonce = randomBytes(32).toString("hex");
+  await redisClient.set(
+    linkStartKey(nonce),
+    JSON.stringify({ userId, provider, merge }),
+    "EX",
+    LINK_TTL_SECONDS
+  );
+  return nonce;
+};
+
+// returns the id of the merged account
+export const confirmOAuthLink = async (
+  redisClient: Redis,
+  userId: string,
+  provider: OAuthProvider,
+  code: string
+) => {
+  const pending: PendingLink | null = await takeKey(
+    redisClient,
+    linkPendingKey(code)
+  );
+  if (!pending || pending.userId !== userId || pending.provider !== provider) {
+    throw createError(400, "this link expired, try again");
+  }
+  return linkProvider(userId, provider, pending.providerId, pending.data, {
+    merge: pending.merge,
+  });
+};
+
+const profilePhoto = (profile: OAuthProfile) =>
+  profile.photos?.[0]?.value ||
+  profile._json?.avatar_url ||
+  profile._json?.links?.avatar?.href ||
+  "";
+
+const oauthVerify = (provider: OAuthProvider, redisClient: Redis) => async (
+  req: Request,
+  accessToken: string,
+  _refreshToken: string,
+  profile: OAuthProfile,
+  cb: (err?: Error | null, user?: any) => void
+) => {
+  try {
+    const data: IdentityData = {
+      accessToken,
+      username: profile.username || null,
+      profileUrl: profile.profileUrl || null,
+    };
+
+    const { link } = parseOAuthState(req.query.state);
+    if (link) {
+      const started = await takeKey(redisClient, linkStartKey(link));
+      if (!started || started.provider !== provider) {
+        cb(createError(400, "this link expired, try again"));
+        return;
+      }
+      const code = randomBytes(32).toString("hex");
+      const pending: PendingLink = {
+        userId: started.userId,
+        provider,
+        providerId: profile.id,
+        data,
+        merge: started.merge,
+      };
+      await redisClient.set(
+        linkPendingKey(code),
+        JSON.stringify(pending),
+        "EX",
+        LINK_TTL_SECONDS
+      );
+      cb(undefined, { linkCode: code });
+      return;
+    }
+
+    const photoUrl = profilePhoto(profile);
+    const { user, created } = await findOrCreateUserForIdentity(
+      provider,
+      profile.id,
+      data,
+      () => ({
+        displayName: profile.displayName || profile.username || "",
+        bio: profile._json?.bio || "",
+        photoUrl,
+        profileUrl: profile.profileUrl || null,
+        // username is unique and has always been the github handle
+        ...(provider === "github"
+          ? { username: profile.username, other: profile._json }
+          : {}),
+      })
+    );
+    // github logins have always refreshed the profile
+    if (!created && provider === "github") {
+      await User.update(user.id, {
+        photoUrl,
+        other: profile._json,
+        profileUrl: profile.profileUrl,
+        username: profile.username,
+      });
+    }
+
+    cb(undefined, await createTokens(user, getSessionInfo(req)));
+  } catch (err) {
+    if (err.statusCode) {
+      cb(err);
+      return;
+    }
+    console.log(err);
+    cb(new Error("internal error"));
+  }
+};
+
+// github is always on, gitlab and bitbucket only when their keys are set.
+// returns the providers that can be used
+export const registerOAuthProviders = ({
+  redisClient,
+}: {
+  redisClient: Redis;
+}) => {
+  const callbackURL = (provider: OAuthProvider) =>
+    `${process.env.SERVER_URL}/auth/${provider}/callback`;
+  const providers: OAuthProvider[] = ["github"];
+
+  passport.use(
+    new GitHubStrategy(
+      {
+        clientID: process.env.GITHUB_CLIENT_ID,
+        clientSecret: process.env.GITHUB_CLIENT_SECRET,
+        callbackURL: callbackURL("github"),
+        passReqToCallback: true,
+      },
+      oauthVerify("github", redisClient)
+    )
+  );
+
+  if (process.env.GITLAB_CLIENT_ID && process.env.GITLAB_CLIENT_SECRET) {
+    passport.use(
+      new GitLabStrategy(
+        {
+          clientID: process.env.GITLAB_CLIENT_ID,
+          clientSecret: process.env.GITLAB_CLIENT_SECRET,
+          callbackURL: callbackURL("gitlab"),
+          // for self hosted gitlab
+          baseURL: process.env.GITLAB_URL,
+          passReqToCallback: true,
+        },
+        oauthVerify("gitlab", redisClient)
+      )
+    );
+    providers.push("gitlab");
+  }
+
+  if (process.env.BITBUCKET_CLIENT_ID && process.env.BITBUCKET_CLIENT_SECRET) {
+    passport.use(
+      new BitbucketStrategy(
+        {
+          clientID: process.env.BITBUCKET_CLIENT_ID,
+          clientSecret: process.env.BITBUCKET_CLIENT_SECRET,
+          callbackURL: callbackURL("bitbucket"),
+          passReqToCallback: true,
+        },
+        oauthVerify("bitbucket", redisClient)
+      )
+    );
+    providers.push("bitbucket");
+  }
+
+  return providers;
+};
@@ -0,0 +1,210 @@
+import { createHash, randomBytes } from "crypto";
+import { Redis } from "ioredis";
+import { getConnection, IsNull } from "typeorm";
+import { Session } from "../entities/Session";
+
+export const getSessionInfo = (req: {
+  headers: Record<string, string | string[] | undefined>;
+  ip?: string;
+  socket?: { remoteAddress?: string };
+}) => {
+  const ua = req.headers["user-agent"];
+  return {
+    device: typeof ua === "string" ? ua.slice(0, 300) : null,
+    ip: req.ip || req.socket?.remoteAddress || null,
+  };
+};
+
+// every authenticated request asks whether its session is still active, so
+// the answer is kept in redis for a bit. revoking deletes it right away
+const ACTIVE_CACHE_SECONDS = 60;
+const activeSessionKey = (sessionId: string) => `session/active/${sessionId}`;
+
+// closes websockets opened with the given sessions, all of them without ids
+type CloseSockets = (userId: string, sessionIds?: string[]) => void;
+
+let sessionStore: Redis | null = null;
+let closeSessionSockets: CloseSockets | null = null;
+export const useSessionStore = (
+  redisClient: Redis,
+  closeSockets: CloseSockets
+) => {
+  sessionStore = redisClient;
+  closeSessionSockets = closeSockets;
+};
+
+// tokens minted before sessions existed don't have one, they stay valid until
+// tokenVersion changes
+export const isSessionActive = async (
+  userId: string,
+  sessionId: string | undefined
+) => {
+  if (!sessionId) {
+    return true;
+  }
+
+  const key = activeSessionKey(sessionId);
+  try {
+    if ((await sessionStore?.get(key)) === userId) {
+      return true;
+    }
+  } catch {}
+
+  const active =
+    (await Session.count({ id: sessionId, userId, revokedAt: IsNull() })) > 0;
+  if (active) {
+    sessionStore
+      ?.set(key, userId, "EX", ACTIVE_CACHE_SECONDS)
+      .catch(console.error);
+  }
+  return active;
+};
+
+// refresh tokens minted before sessions existed can't be rotated, so each one
+// gets swapped for a session once and is remembered until it would have
+// expired anyway
+const LEGACY_REFRESH_TOKEN_SECONDS = 14 * 86400;
+const legacyRefreshTokenKey = (refreshToken: string) =>
+  `session/legacy-used/${createHash("sha256")
+    .update(refreshToken)
+    .digest("hex")}`;
+
+// consume false only checks that it hasn't been swapped yet
+export const claimLegacyRefreshToken = async (
+  refreshToken: string,
+  consume: boolean
+) => {
+  if (!sessionStore) {
+    return false;
+  }
+  const key = legacyRefreshTokenKey(refreshToken);
+  if (!consume) {
+    return !(await sessionStore.exists(key));
+  }
+  return !!(await sessionStore.set(
+    key,
+    "1",
+    "EX",
+    LEGACY_REFRESH_TOKEN_SECONDS,
+    "NX"
+  ));
+};
+
+export const touchSession = (sessionId: string, ip: string | null) =>
+  Session.update(sessionId, { lastSeenAt: new Date(), ...(ip ? { ip } : {}) });
+
+export const listSessions = (userId: string) =>
+  Session.find({
+    where: { userId, revokedAt: IsNull() },
+    order: { lastSeenAt: "DESC" },
+  });
+
+// returns the ids of the sessions that got revoked. their websockets get
+// closed, without a sessionId every socket the user has is
+export const revokeSessions = async (userId: string, sessionId?: string) => {
+  const [rows] = await getConnection().query(
+    `
+    update session
+    set "revokedAt" = now()
+    where "userId" = $1 and "revokedAt" is null
+    ${sessionId ? "and id = $2" : ""}
+    returning id
+  `,
+    sessionId ? [userId, sessionId] : [userId]
+  );
+
+  const ids = (rows as Array<{ id: string }>).map((x) => x.id);
+  if (ids.length && sessionStore) {
+    await sessionStore.del(...ids.map(activeSessionKey));
+  }
+  closeSessionSockets?.(userId, sessionId ? ids : undefined);
+  return ids;
+};
+
+// a request sent alongside the one that rotated the token still carries the
+// old one, it shouldn't look like theft. it gets the current token too so the
+// client isn't logged out, replaying the old one only works for this long
+const REUSE_GRACE_MS = 30 * 1000;
+
+export const newRefreshTokenId = () => randomBytes(16).toString("hex");
+
+const matchRefreshToken = (session: Session, refreshTokenId: string | null) => {
+  if (session.refreshTokenId === refreshTokenId) {
+    return "current";
+  }
+  if (
+    refreshTokenId &&
+    session.previousRefreshTokenId === refreshTokenId &&
+    session.rotatedAt &&
+    Date.now() - new Date(session.rotatedAt).getTime() < REUSE_GRACE_MS
+  ) {
+    return "grace";
+  }
+  return "reused";
+};
+
+const findRefreshableSession = async (
+  userId: string,
+  sessionId: string,
+  refreshTokenId: string | null
+) => {
+  const session = await Session.findOne({ id: sessionId, userId });
+  if (!session || session.revokedAt) {
+    return null;
+  }
+
+  const match = matchRefreshToken(session, refreshTokenId);
+  if (match === "reused") {
+    // a token that was already swapped for a new one got replayed, no way to
+    // tell who the real owner is so the whole session goes
+    await revokeSessions(userId, sessionId);
+    return null;
+  }
+
+  return { session, match };
+};
+
+export const checkRefreshToken = async (
+  userId: string,
+  sessionId: string,
+  refreshTokenId: string | null
+) => !!(await findRefreshableSession(userId, sessionId, refreshTokenId));
+
+// consumes the refresh token, returns the id for the next one or null if the
+// token can't be used
+export const rotateRefreshToken = async (
+  userId: string,
+  sessionId: string,
+  refreshTokenId: string | null
+): Promise<string | null> => {
+  const found = await findRefreshableSession(userId, sessionId, refreshTokenId);
+  if (!found) {
+    return null;
+  }
+  if (found.match === "grace") {
+    // already rotated, this gets what the other request got
+    return found.session.refreshTokenId;
+  }
+
+  const next = newRefreshTokenId();
+  const [, affected] = await getConnection().query(
+    `
+    update session
+    set "previousRefreshTokenId" = "refreshTokenId", "refreshTokenId" = $3, "rotatedAt" = now()
+    where id = $1 and "revokedAt" is null
+    and "refreshTokenId" is not distinct from $2
+  `,
+    [sessionId, refreshTokenId, next]
+  );
+  if (!affected) {
+    // another request rotated it first, it's in the grace period now
+    const again = await findRefreshableSession(
+      userId,
+      sessionId,
+      refreshTokenId
+    );
+    return again?.match === "grace" ? again.session.refreshTokenId : null;
+  }
+
+  return next;
+};
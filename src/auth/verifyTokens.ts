@@ -0,0 +1,95 @@
+import { verify } from "jsonwebtoken";
+import { User } from "../entities/User";
+import { createTokens } from "./createTokens";
+import {
+  checkRefreshToken,
+  claimLegacyRefreshToken,
+  getSessionInfo,
+  isSessionActive,
+  rotateRefreshToken,
+  touchSession,
+} from "./sessions";
+
+export interface VerifiedTokens {
+  userId: string;
+  sessionId?: string;
+  // only set when the refresh token got rotated, these have to make it back
+  // to the client or it will be logged out next time
+  tokens?: { refreshToken: string; accessToken: string };
+}
+
+// shared by isAuth and the websocket upgrade. the upgrade has no way to hand
+// new tokens back so it only checks the refresh token instead of consuming it
+export const verifyTokens = async (
+  accessToken: string,
+  refreshToken: string | undefined,
+  {
+    rotate,
+    sessionInfo,
+  }: { rotate: boolean; sessionInfo: ReturnType<typeof getSessionInfo> }
+): Promise<VerifiedTokens | null> => {
+  let access: any = null;
+  try {
+    access = verify(accessToken, process.env.ACCESS_TOKEN_SECRET);
+  } catch {}
+  if (access) {
+    // a revoked session's access tokens stop working before they expire
+    return (await isSessionActive(access.userId, access.sessionId))
+      ? { userId: access.userId, sessionId: access.sessionId }
+      : null;
+  }
+
+  if (!refreshToken) {
+    return null;
+  }
+
+  let data: any;
+  try {
+    data = verify(refreshToken, process.env.REFRESH_TOKEN_SECRET);
+  } catch {
+    return null;
+  }
+
+  const user = await User.findOne(data.userId);
+  // token has been invalidated, user deleted or banned
+  if (!user || user.tokenVersion !== data.tokenVersion || user.banned) {
+    return null;
+  }
+
+  // minted before sessions existed, swap it for one that has a session
+  if (!data.sessionId) {
+    if (!(await claimLegacyRefreshToken(refreshToken, rotate))) {
+      return null;
+    }
+    return {
+      userId: user.id,
+      tokens: rotate ? await createTokens(user, sessionInfo) : undefined,
+    };
+  }
+
+  const refreshTokenId: string | null = data.refreshTokenId || null;
+  if (!rotate) {
+    return (await checkRefreshToken(user.id, data.sessionId, refreshTokenId))
+      ? { userId: user.id, sessionId: data.sessionId }
+      : null;
+  }
+
+  const nextRefreshTokenId = await rotateRefreshToken(
+    user.id,
+    data.sessionId,
+    refreshTokenId
+  );
+  if (!nextRefreshTokenId) {
+    return null;
+  }
+  touchSession(data.sessionId, sessionInfo.ip).catch(console.error);
+
+  return {
+    userId: user.id,
+    sessionId: data.sessionId,
+    tokens: await createTokens(user, {
+      sessionId: data.sessionId,
+      refreshTokenId: nextRefreshTokenId,
+    }),
+  };
+};
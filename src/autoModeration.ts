@@ -0,0 +1,171 @@
+import fetch from "node-fetch";
+import { getConnection } from "typeorm";
+import { Report } from "./entities/Report";
+import { User } from "./entities/User";
+import { flagForReview, shadowBan } from "./moderation";
+import { envNumber } from "./utils";
+
+export const autoModerationConfig = {
+  // only reports from the last n days count
+  windowDays: envNumber(process.env.AUTO_MOD_WINDOW_DAYS, 7),
+  reviewScore: envNumber(process.env.AUTO_MOD_REVIEW_SCORE, 2),
+  shadowBanScore: envNumber(process.env.AUTO_MOD_SHADOW_BAN_SCORE, 4),
+  // reporters younger than this count for less
+  newAccountDays: envNumber(process.env.AUTO_MOD_NEW_ACCOUNT_DAYS, 3),
+  newAccountWeight: 0.25,
+  // reporters with this many reports against them count for less
+  untrustedReports: envNumber(process.env.AUTO_MOD_UNTRUSTED_REPORTS, 3),
+  untrustedWeight: 0.25,
+  // people who get swiped left on nearly every time score higher
+  highRejectRatio: envNumber(process.env.AUTO_MOD_HIGH_REJECT_RATIO, 0.95),
+  minViewsForRejectRatio: 50,
+  highRejectMultiplier: 1.5,
+};
+
+export type AutoModerationConfig = typeof autoModerationConfig;
+
+export interface ReporterSignal {
+  reporterId: string;
+  accountAgeDays: number;
+  reportsAgainst: number;
+  moderated: boolean;
+}
+
+export interface ReportSignals {
+  reporters: ReporterSignal[];
+  views: number;
+  rejects: number;
+}
+
+export const reporterWeight = (
+  r: ReporterSignal,
+  config: AutoModerationConfig = autoModerationConfig
+) => {
+  if (r.moderated) {
+    return 0;
+  }
+  let weight = 1;
+  if (r.accountAgeDays < config.newAccountDays) {
+    weight *= config.newAccountWeight;
+  }
+  if (r.reportsAgainst >= config.untrustedReports) {
+    weight *= config.untrustedWeight;
+  }
+  return weight;
+};
+
+export const scoreReportSignals = (
+  signals: ReportSignals,
+  config: AutoModerationConfig = autoModerationConfig
+) => {
+  let score = signals.reporters.reduce(
+    (acc, r) => acc + reporterWeight(r, config),
+    0
+  );
+  const rejectRatio = signals.views ? signals.rejects / signals.views : 0;
+  if (
+    signals.views >= config.minViewsForRejectRatio &&
+    rejectRatio >= config.highRejectRatio
+  ) {
+    score *= config.highRejectMultiplier;
+  }
+
+  return { score, rejectRatio };
+};
+
+const getReportSignals = async (
+  targetId: string,
+  config: AutoModerationConfig
+): Promise<ReportSignals> => {
+  const [reporters, [viewStats]] = await Promise.all([
+    getConnection().query(
+      `
+      select r."reporterId",
+      date_part('epoch', now() - u."createdAt") / 86400 "accountAgeDays",
+      (u."shadowBanned" or u.banned) "moderated",
+      (select count(*) from report r2
+        where r2."targetId" = r."reporterId" and r2.status != 'dismissed')::int "reportsAgainst"
+      from report r
+      inner join "user" u on u.id = r."reporterId"
+      where r."targetId" = $1
+      and r.status = 'open'
+      and r."createdAt" > now() - $2 * interval '1 day'
+      group by r."reporterId", u.id
+    `,
+      [targetId, config.windowDays]
+    ),
+    getConnection().query(
+      `
+      select count(*)::int "views", count(*) filter (where liked = false)::int "rejects"
+      from view
+      where "targetId" = $1
+    `,
+      [targetId]
+    ),
+  ]);
+
+  return { reporters, ...viewStats };
+};
+
+// runs after every report, shadow bans or flags the target for a person to
+// look at when enough trusted people reported them recently
+export const evaluateReport = async (
+  report: Report,
+  config: AutoModerationConfig = autoModerationConfig
+) => {
+  const target = await User.findOne(report.targetId);
+  if (!target || target.shadowBanned || target.banned) {
+    return;
+  }
+
+  const signals = await getReportSignals(report.targetId, config);
+  const { score, rejectRatio } = scoreReportSignals(signals, config);
+  const reason = JSON.stringify({
+    score,
+    reporters: signals.reporters.length,
+    rejectRatio,
+    views: signals.views,
+    windowDays: config.windowDays,
+  });
+  const ctx = {
+    moderatorId: null,
+    reportId: report.id,
+    automatic: true,
+    reason,
+  };
+
+  let decision: string;
+  if (score >= config.shadowBanScore) {
+    await shadowBan(report.targetId, ctx);
+    decision = "shadow banned";
+  } else if (score >= config.reviewScore) {
+    // once per window is enough
+    const [{ flagged }] = await getConnection().query(
+      `
+      select exists (
+        select 1 from moderation_action
+        where "targetId" = $1 and action = 'flag-for-review'
+        and "createdAt" > now() - $2 * interval '1 day'
+      ) flagged
+    `,
+      [report.targetId, config.windowDays]
+    );
+    if (flagged) {
+      return;
+    }
+    await flagForReview(report.targetId, ctx);
+    decision = "flagged for review";
+  } else {
+    return;
+  }
+
+  await fetch(process.env.SLACK_REPORT_URL, {
+    method: "post",
+    headers: {
+      "Content-type": "application/json",
+    },
+    body: JSON.stringify({
+      text: `auto moderation ${decision} ${report.targetId}: ${reason}`,
+    }),
+  });
+};
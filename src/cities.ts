@@ -0,0 +1,908 @@
+// Offline list of cities people can pick as their location, the ids are what
+// clients send back as cityId. It's the bigger tech hubs, anything else can
+// still be placed with coordinates. aliases are matched after
+// normalizeLocation, so lowercase without punctuation. Nothing short enough to
+// be a state or country code goes in there, "Buffalo, NY" isn't New York.
+export interface City {
+  id: string;
+  name: string;
+  // ISO 3166-1 alpha-2
+  country: string;
+  // state or province code, so "Austin, TX" can be told apart from elsewhere
+  region?: string;
+  lat: number;
+  lng: number;
+  // the name alone is also a well known place somewhere else, it only counts
+  // with a region or country after it
+  ambiguous?: boolean;
+  aliases?: string[];
+}
+
+export const cities: City[] = [
+  // north america
+  {
+    id: "new-york-us",
+    name: "New York",
+    country: "US",
+    region: "NY",
+    lat: 40.71,
+    lng: -74.01,
+    aliases: ["nyc", "new york city", "manhattan", "brooklyn"],
+  },
+  {
+    id: "los-angeles-us",
+    name: "Los Angeles",
+    country: "US",
+    region: "CA",
+    lat: 34.05,
+    lng: -118.24,
+  },
+  {
+    id: "san-francisco-us",
+    name: "San Francisco",
+    country: "US",
+    region: "CA",
+    lat: 37.77,
+    lng: -122.42,
+    aliases: ["bay area", "san francisco bay area", "sf bay area"],
+  },
+  {
+    id: "san-jose-us",
+    name: "San Jose",
+    country: "US",
+    region: "CA",
+    lat: 37.34,
+    lng: -121.89,
+    aliases: ["silicon valley"],
+  },
+  {
+    id: "oakland-us",
+    name: "Oakland",
+    country: "US",
+    region: "CA",
+    lat: 37.8,
+    lng: -122.27,
+  },
+  {
+    id: "seattle-us",
+    name: "Seattle",
+    country: "US",
+    region: "WA",
+    lat: 47.61,
+    lng: -122.33,
+  },
+  {
+    id: "portland-us",
+    name: "Portland",
+    country: "US",
+    region: "OR",
+    lat: 45.52,
+    lng: -122.68,
+    ambiguous: true,
+    aliases: ["pdx"],
+  },
+  {
+    id: "san-diego-us",
+    name: "San Diego",
+    country: "US",
+    region: "CA",
+    lat: 32.72,
+    lng: -117.16,
+  },
+  {
+    id: "sacramento-us",
+    name: "Sacramento",
+    country: "US",
+    region: "CA",
+    lat: 38.58,
+    lng: -121.49,
+  },
+  {
+    id: "las-vegas-us",
+    name: "Las Vegas",
+    country: "US",
+    region: "NV",
+    lat: 36.17,
+    lng: -115.14,
+    aliases: ["vegas"],
+  },
+  {
+    id: "phoenix-us",
+    name: "Phoenix",
+    country: "US",
+    region: "AZ",
+    lat: 33.45,
+    lng: -112.07,
+  },
+  {
+    id: "salt-lake-city-us",
+    name: "Salt Lake City",
+    country: "US",
+    region: "UT",
+    lat: 40.76,
+    lng: -111.89,
+    aliases: ["slc"],
+  },
+  {
+    id: "denver-us",
+    name: "Denver",
+    country: "US",
+    region: "CO",
+    lat: 39.74,
+    lng: -104.99,
+  },
+  {
+    id: "boulder-us",
+    name: "Boulder",
+    country: "US",
+    region: "CO",
+    lat: 40.01,
+    lng: -105.27,
+  },
+  {
+    id: "austin-us",
+    name: "Austin",
+    country: "US",
+    region: "TX",
+    lat: 30.27,
+    lng: -97.74,
+    aliases: ["atx"],
+  },
+  {
+    id: "dallas-us",
+    name: "Dallas",
+    country: "US",
+    region: "TX",
+    lat: 32.78,
+    lng: -96.8,
+    aliases: ["dfw", "dallas fort worth"],
+  },
+  {
+    id: "houston-us",
+    name: "Houston",
+    country: "US",
+    region: "TX",
+    lat: 29.76,
+    lng: -95.37,
+  },
+  {
+    id: "san-antonio-us",
+    name: "San Antonio",
+    country: "US",
+    region: "TX",
+    lat: 29.42,
+    lng: -98.49,
+  },
+  {
+    id: "minneapolis-us",
+    name: "Minneapolis",
+    country: "US",
+    region: "MN",
+    lat: 44.98,
+    lng: -93.27,
+    aliases: ["twin cities", "st paul"],
+  },
+  {
+    id: "chicago-us",
+    name: "Chicago",
+    country: "US",
+    region: "IL",
+    lat: 41.88,
+    lng: -87.63,
+    aliases: ["chi"],
+  },
+  {
+    id: "detroit-us",
+    name: "Detroit",
+    country: "US",
+    region: "MI",
+    lat: 42.33,
+    lng: -83.05,
+  },
+  {
+    id: "columbus-us",
+    name: "Columbus",
+    country: "US",
+    region: "OH",
+    lat: 39.96,
+    lng: -83.0,
+    ambiguous: true,
+  },
+  {
+    id: "pittsburgh-us",
+    name: "Pittsburgh",
+    country: "US",
+    region: "PA",
+    lat: 40.44,
+    lng: -80.0,
+  },
+  {
+    id: "st-louis-us",
+    name: "St. Louis",
+    country: "US",
+    region: "MO",
+    lat: 38.63,
+    lng: -90.2,
+    aliases: ["saint louis", "stl"],
+  },
+  {
+    id: "kansas-city-us",
+    name: "Kansas City",
+    country: "US",
+    region: "MO",
+    lat: 39.1,
+    lng: -94.58,
+  },
+  {
+    id: "nashville-us",
+    name: "Nashville",
+    country: "US",
+    region: "TN",
+    lat: 36.16,
+    lng: -86.78,
+  },
+  {
+    id: "atlanta-us",
+    name: "Atlanta",
+    country: "US",
+    region: "GA",
+    lat: 33.75,
+    lng: -84.39,
+    aliases: ["atl"],
+  },
+  {
+    id: "miami-us",
+    name: "Miami",
+    country: "US",
+    region: "FL",
+    lat: 25.76,
+    lng: -80.19,
+  },
+  {
+    id: "orlando-us",
+    name: "Orlando",
+    country: "US",
+    region: "FL",
+    lat: 28.54,
+    lng: -81.38,
+  },
+  {
+    id: "tampa-us",
+    name: "Tampa",
+    country: "US",
+    region: "FL",
+    lat: 27.95,
+    lng: -82.46,
+  },
+  {
+    id: "raleigh-us",
+    name: "Raleigh",
+    country: "US",
+    region: "NC",
+    lat: 35.78,
+    lng: -78.64,
+    aliases: ["research triangle", "durham"],
+  },
+  {
+    id: "charlotte-us",
+    name: "Charlotte",
+    country: "US",
+    region: "NC",
+    lat: 35.23,
+    lng: -80.84,
+  },
+  {
+    id: "washington-us",
+    name: "Washington",
+    country: "US",
+    region: "DC",
+    lat: 38.91,
+    lng: -77.04,
+    ambiguous: true,
+    aliases: ["washington dc"],
+  },
+  {
+    id: "baltimore-us",
+    name: "Baltimore",
+    country: "US",
+    region: "MD",
+    lat: 39.29,
+    lng: -76.61,
+  },
+  {
+    id: "philadelphia-us",
+    name: "Philadelphia",
+    country: "US",
+    region: "PA",
+    lat: 39.95,
+    lng: -75.17,
+    aliases: ["philly"],
+  },
+  {
+    id: "boston-us",
+    name: "Boston",
+    country: "US",
+    region: "MA",
+    lat: 42.36,
+    lng: -71.06,
+    aliases: ["cambridge ma"],
+  },
+  {
+    id: "toronto-ca",
+    name: "Toronto",
+    country: "CA",
+    region: "ON",
+    lat: 43.65,
+    lng: -79.38,
+    aliases: ["gta"],
+  },
+  {
+    id: "montreal-ca",
+    name: "Montreal",
+    country: "CA",
+    region: "QC",
+    lat: 45.5,
+    lng: -73.57,
+  },
+  {
+    id: "ottawa-ca",
+    name: "Ottawa",
+    country: "CA",
+    region: "ON",
+    lat: 45.42,
+    lng: -75.7,
+  },
+  {
+    id: "vancouver-ca",
+    name: "Vancouver",
+    country: "CA",
+    region: "BC",
+    lat: 49.28,
+    lng: -123.12,
+    ambiguous: true,
+  },
+  {
+    id: "calgary-ca",
+    name: "Calgary",
+    country: "CA",
+    region: "AB",
+    lat: 51.05,
+    lng: -114.07,
+  },
+  {
+    id: "mexico-city-mx",
+    name: "Mexico City",
+    country: "MX",
+    lat: 19.43,
+    lng: -99.13,
+    aliases: ["cdmx", "ciudad de mexico"],
+  },
+  {
+    id: "guadalajara-mx",
+    name: "Guadalajara",
+    country: "MX",
+    lat: 20.66,
+    lng: -103.35,
+  },
+  // south america
+  {
+    id: "sao-paulo-br",
+    name: "São Paulo",
+    country: "BR",
+    region: "SP",
+    lat: -23.55,
+    lng: -46.63,
+    aliases: ["sao paulo"],
+  },
+  {
+    id: "rio-de-janeiro-br",
+    name: "Rio de Janeiro",
+    country: "BR",
+    region: "RJ",
+    lat: -22.91,
+    lng: -43.17,
+    aliases: ["rio"],
+  },
+  {
+    id: "buenos-aires-ar",
+    name: "Buenos Aires",
+    country: "AR",
+    lat: -34.6,
+    lng: -58.38,
+  },
+  {
+    id: "santiago-cl",
+    name: "Santiago",
+    country: "CL",
+    lat: -33.45,
+    lng: -70.67,
+  },
+  {
+    id: "bogota-co",
+    name: "Bogotá",
+    country: "CO",
+    lat: 4.71,
+    lng: -74.07,
+    aliases: ["bogota"],
+  },
+  {
+    id: "medellin-co",
+    name: "Medellín",
+    country: "CO",
+    lat: 6.24,
+    lng: -75.58,
+    aliases: ["medellin"],
+  },
+  { id: "lima-pe", name: "Lima", country: "PE", lat: -12.05, lng: -77.04 },
+  // europe
+  {
+    id: "london-gb",
+    name: "London",
+    country: "GB",
+    lat: 51.51,
+    lng: -0.13,
+    aliases: ["ldn"],
+  },
+  {
+    id: "manchester-gb",
+    name: "Manchester",
+    country: "GB",
+    lat: 53.48,
+    lng: -2.24,
+  },
+  {
+    id: "edinburgh-gb",
+    name: "Edinburgh",
+    country: "GB",
+    lat: 55.95,
+    lng: -3.19,
+  },
+  { id: "dublin-ie", name: "Dublin", country: "IE", lat: 53.35, lng: -6.26 },
+  { id: "paris-fr", name: "Paris", country: "FR", lat: 48.86, lng: 2.35 },
+  { id: "lyon-fr", name: "Lyon", country: "FR", lat: 45.76, lng: 4.84 },
+  {
+    id: "amsterdam-nl",
+    name: "Amsterdam",
+    country: "NL",
+    lat: 52.37,
+    lng: 4.9,
+  },
+  {
+    id: "rotterdam-nl",
+    name: "Rotterdam",
+    country: "NL",
+    lat: 51.92,
+    lng: 4.48,
+  },
+  {
+    id: "brussels-be",
+    name: "Brussels",
+    country: "BE",
+    lat: 50.85,
+    lng: 4.35,
+    aliases: ["bruxelles"],
+  },
+  { id: "berlin-de", name: "Berlin", country: "DE", lat: 52.52, lng: 13.41 },
+  { id: "hamburg-de", name: "Hamburg", country: "DE", lat: 53.55, lng: 9.99 },
+  {
+    id: "munich-de",
+    name: "Munich",
+    country: "DE",
+    lat: 48.14,
+    lng: 11.58,
+    aliases: ["munchen", "muenchen"],
+  },
+  {
+    id: "frankfurt-de",
+    name: "Frankfurt",
+    country: "DE",
+    lat: 50.11,
+    lng: 8.68,
+  },
+  {
+    id: "cologne-de",
+    name: "Cologne",
+    country: "DE",
+    lat: 50.94,
+    lng: 6.96,
+    aliases: ["koln", "koeln"],
+  },
+  {
+    id: "zurich-ch",
+    name: "Zurich",
+    country: "CH",
+    lat: 47.38,
+    lng: 8.54,
+    aliases: ["zuerich"],
+  },
+  {
+    id: "geneva-ch",
+    name: "Geneva",
+    country: "CH",
+    lat: 46.2,
+    lng: 6.14,
+    aliases: ["geneve"],
+  },
+  {
+    id: "vienna-at",
+    name: "Vienna",
+    country: "AT",
+    lat: 48.21,
+    lng: 16.37,
+    aliases: ["wien"],
+  },
+  {
+    id: "prague-cz",
+    name: "Prague",
+    country: "CZ",
+    lat: 50.08,
+    lng: 14.44,
+    aliases: ["praha"],
+  },
+  {
+    id: "warsaw-pl",
+    name: "Warsaw",
+    country: "PL",
+    lat: 52.23,
+    lng: 21.01,
+    aliases: ["warszawa"],
+  },
+  {
+    id: "krakow-pl",
+    name: "Kraków",
+    country: "PL",
+    lat: 50.06,
+    lng: 19.94,
+    aliases: ["krakow", "cracow"],
+  },
+  { id: "budapest-hu", name: "Budapest", country: "HU", lat: 47.5, lng: 19.04 },
+  {
+    id: "bucharest-ro",
+    name: "Bucharest",
+    country: "RO",
+    lat: 44.43,
+    lng: 26.1,
+    aliases: ["bucuresti"],
+  },
+  {
+    id: "copenhagen-dk",
+    name: "Copenhagen",
+    country: "DK",
+    lat: 55.68,
+    lng: 12.57,
+    aliases: ["kobenhavn"],
+  },
+  {
+    id: "stockholm-se",
+    name: "Stockholm",
+    country: "SE",
+    lat: 59.33,
+    lng: 18.07,
+  },
+  { id: "oslo-no", name: "Oslo", country: "NO", lat: 59.91, lng: 10.75 },
+  {
+    id: "helsinki-fi",
+    name: "Helsinki",
+    country: "FI",
+    lat: 60.17,
+    lng: 24.94,
+  },
+  { id: "tallinn-ee", name: "Tallinn", country: "EE", lat: 59.44, lng: 24.75 },
+  { id: "madrid-es", name: "Madrid", country: "ES", lat: 40.42, lng: -3.7 },
+  {
+    id: "barcelona-es",
+    name: "Barcelona",
+    country: "ES",
+    lat: 41.39,
+    lng: 2.17,
+    aliases: ["bcn"],
+  },
+  {
+    id: "lisbon-pt",
+    name: "Lisbon",
+    country: "PT",
+    lat: 38.72,
+    lng: -9.14,
+    aliases: ["lisboa"],
+  },
+  { id: "porto-pt", name: "Porto", country: "PT", lat: 41.15, lng: -8.61 },
+  {
+    id: "milan-it",
+    name: "Milan",
+    country: "IT",
+    lat: 45.46,
+    lng: 9.19,
+    aliases: ["milano"],
+  },
+  {
+    id: "rome-it",
+    name: "Rome",
+    country: "IT",
+    lat: 41.9,
+    lng: 12.5,
+    aliases: ["roma"],
+  },
+  { id: "athens-gr", name: "Athens", country: "GR", lat: 37.98, lng: 23.73 },
+  {
+    id: "istanbul-tr",
+    name: "Istanbul",
+    country: "TR",
+    lat: 41.01,
+    lng: 28.98,
+  },
+  {
+    id: "kyiv-ua",
+    name: "Kyiv",
+    country: "UA",
+    lat: 50.45,
+    lng: 30.52,
+    aliases: ["kiev"],
+  },
+  {
+    id: "moscow-ru",
+    name: "Moscow",
+    country: "RU",
+    lat: 55.76,
+    lng: 37.62,
+    aliases: ["moskva"],
+  },
+  {
+    id: "saint-petersburg-ru",
+    name: "Saint Petersburg",
+    country: "RU",
+    lat: 59.93,
+    lng: 30.34,
+    aliases: ["st petersburg", "spb"],
+  },
+  // africa and the middle east
+  { id: "cairo-eg", name: "Cairo", country: "EG", lat: 30.04, lng: 31.24 },
+  { id: "lagos-ng", name: "Lagos", country: "NG", lat: 6.52, lng: 3.38 },
+  { id: "nairobi-ke", name: "Nairobi", country: "KE", lat: -1.29, lng: 36.82 },
+  {
+    id: "johannesburg-za",
+    name: "Johannesburg",
+    country: "ZA",
+    lat: -26.2,
+    lng: 28.05,
+    aliases: ["joburg", "jozi"],
+  },
+  {
+    id: "cape-town-za",
+    name: "Cape Town",
+    country: "ZA",
+    lat: -33.92,
+    lng: 18.42,
+  },
+  {
+    id: "tel-aviv-il",
+    name: "Tel Aviv",
+    country: "IL",
+    lat: 32.09,
+    lng: 34.78,
+  },
+  { id: "dubai-ae", name: "Dubai", country: "AE", lat: 25.2, lng: 55.27 },
+  // asia and oceania
+  {
+    id: "bangalore-in",
+    name: "Bangalore",
+    country: "IN",
+    lat: 12.97,
+    lng: 77.59,
+    aliases: ["bengaluru", "blr"],
+  },
+  {
+    id: "mumbai-in",
+    name: "Mumbai",
+    country: "IN",
+    lat: 19.08,
+    lng: 72.88,
+    aliases: ["bombay"],
+  },
+  {
+    id: "delhi-in",
+    name: "Delhi",
+    country: "IN",
+    lat: 28.61,
+    lng: 77.21,
+    aliases: ["new delhi", "ncr", "gurgaon", "noida"],
+  },
+  {
+    id: "hyderabad-in",
+    name: "Hyderabad",
+    country: "IN",
+    lat: 17.39,
+    lng: 78.49,
+  },
+  {
+    id: "chennai-in",
+    name: "Chennai",
+    country: "IN",
+    lat: 13.08,
+    lng: 80.27,
+    aliases: ["madras"],
+  },
+  { id: "pune-in", name: "Pune", country: "IN", lat: 18.52, lng: 73.86 },
+  {
+    id: "singapore-sg",
+    name: "Singapore",
+    country: "SG",
+    lat: 1.35,
+    lng: 103.82,
+  },
+  {
+    id: "kuala-lumpur-my",
+    name: "Kuala Lumpur",
+    country: "MY",
+    lat: 3.14,
+    lng: 101.69,
+  },
+  { id: "jakarta-id", name: "Jakarta", country: "ID", lat: -6.21, lng: 106.85 },
+  { id: "bangkok-th", name: "Bangkok", country: "TH", lat: 13.76, lng: 100.5 },
+  {
+    id: "manila-ph",
+    name: "Manila",
+    country: "PH",
+    lat: 14.6,
+    lng: 120.98,
+    aliases: ["metro manila"],
+  },
+  {
+    id: "ho-chi-minh-city-vn",
+    name: "Ho Chi Minh City",
+    country: "VN",
+    lat: 10.82,
+    lng: 106.63,
+    aliases: ["saigon", "hcmc"],
+  },
+  {
+    id: "hong-kong-hk",
+    name: "Hong Kong",
+    country: "HK",
+    lat: 22.32,
+    lng: 114.17,
+  },
+  {
+    id: "shanghai-cn",
+    name: "Shanghai",
+    country: "CN",
+    lat: 31.23,
+    lng: 121.47,
+  },
+  { id: "beijing-cn", name: "Beijing", country: "CN", lat: 39.9, lng: 116.41 },
+  {
+    id: "shenzhen-cn",
+    name: "Shenzhen",
+    country: "CN",
+    lat: 22.54,
+    lng: 114.06,
+  },
+  { id: "taipei-tw", name: "Taipei", country: "TW", lat: 25.03, lng: 121.57 },
+  { id: "seoul-kr", name: "Seoul", country: "KR", lat: 37.57, lng: 126.98 },
+  { id: "tokyo-jp", name: "Tokyo", country: "JP", lat: 35.68, lng: 139.69 },
+  { id: "osaka-jp", name: "Osaka", country: "JP", lat: 34.69, lng: 135.5 },
+  {
+    id: "sydney-au",
+    name: "Sydney",
+    country: "AU",
+    lat: -33.87,
+    lng: 151.21,
+    aliases: ["syd"],
+  },
+  {
+    id: "melbourne-au",
+    name: "Melbourne",
+    country: "AU",
+    lat: -37.81,
+    lng: 144.96,
+  },
+  {
+    id: "brisbane-au",
+    name: "Brisbane",
+    country: "AU",
+    lat: -27.47,
+    lng: 153.03,
+  },
+  { id: "perth-au", name: "Perth", country: "AU", lat: -31.95, lng: 115.86 },
+  {
+    id: "auckland-nz",
+    name: "Auckland",
+    country: "NZ",
+    lat: -36.85,
+    lng: 174.76,
+    aliases: ["akl"],
+  },
+  {
+    id: "wellington-nz",
+    name: "Wellington",
+    country: "NZ",
+    lat: -41.29,
+    lng: 174.78,
+  },
+];
+
+// what people write after the city, besides the codes
+export const countryNames: Record<string, string[]> = {
+  AE: ["uae", "united arab emirates"],
+  AR: ["argentina"],
+  AT: ["austria", "osterreich"],
+  AU: ["australia"],
+  BE: ["belgium", "belgique", "belgie"],
+  BR: ["brazil", "brasil"],
+  CA: ["canada"],
+  CH: ["switzerland", "schweiz", "suisse"],
+  CL: ["chile"],
+  CN: ["china"],
+  CO: ["colombia"],
+  CZ: ["czechia", "czech republic"],
+  DE: ["germany", "deutschland"],
+  DK: ["denmark", "danmark"],
+  EE: ["estonia", "eesti"],
+  EG: ["egypt"],
+  ES: ["spain", "espana"],
+  FI: ["finland", "suomi"],
+  FR: ["france"],
+  GB: ["uk", "united kingdom", "england", "scotland", "great britain"],
+  GR: ["greece"],
+  HK: ["hong kong"],
+  HU: ["hungary", "magyarorszag"],
+  ID: ["indonesia"],
+  IE: ["ireland"],
+  IL: ["israel"],
+  IN: ["india"],
+  IT: ["italy", "italia"],
+  JP: ["japan"],
+  KE: ["kenya"],
+  KR: ["korea", "south korea"],
+  MX: ["mexico"],
+  MY: ["malaysia"],
+  NG: ["nigeria"],
+  NL: ["netherlands", "the netherlands", "holland", "nederland"],
+  NO: ["norway", "norge"],
+  NZ: ["new zealand"],
+  PE: ["peru"],
+  PH: ["philippines"],
+  PL: ["poland", "polska"],
+  PT: ["portugal"],
+  RO: ["romania"],
+  RU: ["russia"],
+  SE: ["sweden", "sverige"],
+  SG: ["singapore"],
+  TH: ["thailand"],
+  TR: ["turkey", "turkiye"],
+  TW: ["taiwan"],
+  UA: ["ukraine"],
+  US: ["usa", "united states", "united states of america", "america"],
+  VN: ["vietnam"],
+  ZA: ["south africa"],
+};
+
+export const regionNames: Record<string, string[]> = {
+  AB: ["alberta"],
+  AZ: ["arizona"],
+  BC: ["british columbia"],
+  CA: ["california"],
+  CO: ["colorado"],
+  DC: ["district of columbia"],
+  FL: ["florida"],
+  GA: ["georgia"],
+  IL: ["illinois"],
+  MA: ["massachusetts"],
+  MD: ["maryland"],
+  MI: ["michigan"],
+  MN: ["minnesota"],
+  MO: ["missouri"],
+  NC: ["north carolina"],
+  NV: ["nevada"],
+  NY: ["new york"],
+  OH: ["ohio"],
+  ON: ["ontario"],
+  OR: ["oregon"],
+  PA: ["pennsylvania"],
+  QC: ["quebec"],
+  RJ: ["rio de janeiro"],
+  SP: ["sao paulo"],
+  TN: ["tennessee"],
+  TX: ["texas"],
+  UT: ["utah"],
+  WA: ["washington"],
+};
@@ -0,0 +1,49 @@
+// languages a code snippet message can be tagged with, the ids double as
+// highlight.js / prism language names so clients can pass them straight through
+export const codeLanguages = {
+  c: "C",
+  cpp: "C++",
+  csharp: "C#",
+  css: "CSS",
+  dart: "Dart",
+  elixir: "Elixir",
+  go: "Go",
+  haskell: "Haskell",
+  html: "HTML",
+  java: "Java",
+  javascript: "JavaScript",
+  json: "JSON",
+  kotlin: "Kotlin",
+  lua: "Lua",
+  markdown: "Markdown",
+  php: "PHP",
+  plaintext: "plain text",
+  python: "Python",
+  r: "R",
+  ruby: "Ruby",
+  rust: "Rust",
+  scala: "Scala",
+  shell: "Shell",
+  sql: "SQL",
+  swift: "Swift",
+  typescript: "TypeScript",
+  yaml: "YAML",
+};
+
+export type CodeLanguage = keyof typeof codeLanguages;
+
+export const codeLanguageIds = Object.keys(codeLanguages) as CodeLanguage[];
+
+export const getLanguageName = (language: string | null) =>
+  (language && codeLanguages[language as CodeLanguage]) || "code";
+
+// e.g. "sent a TypeScript snippet", used where we can't show the code itself
+export const summarizeSnippet = (language: string | null) => {
+  const name = getLanguageName(language);
+  return `sent ${/^[aeiou]/i.test(name) ? "an" : "a"} ${name} snippet`;
+};
+
+// what /matches and push notifications show for a message. only code messages
+// have a language, the ones sent without a caption show the summary instead
+export const messagePreview = (text: string | null, language: string | null) =>
+  !text && language ? summarizeSnippet(language) : text || "";
@@ -0,0 +1,299 @@
+import { CronJob } from "cron";
+import fetch from "node-fetch";
+import { getConnection } from "typeorm";
+import { CompatibilityProfile } from "./entities/CompatibilityProfile";
+import { Identity } from "./entities/Identity";
+import { User } from "./entities/User";
+import { envNumber } from "./utils";
+
+// Everyone who logged in with GitHub gets a compatibility profile built from
+// their repos (languages, topics and how active they've been). Feeds are
+// ranked with a score between the viewer's profile and each candidate's. Code
+// images are only pixels to us and messages are private, so neither counts.
+// People who turn compatibilityScoring off have no profile and are ranked like
+// before.
+
+export const compatibilityConfig = {
+  // how far a perfect match moves someone up the feed, the base rank is random
+  // between 0 and 1 so 0.5 is a lot
+  feedWeight: envNumber(process.env.COMPAT_FEED_WEIGHT, 0.5),
+  languageWeight: envNumber(process.env.COMPAT_LANGUAGE_WEIGHT, 0.6),
+  topicWeight: envNumber(process.env.COMPAT_TOPIC_WEIGHT, 0.25),
+  activityWeight: envNumber(process.env.COMPAT_ACTIVITY_WEIGHT, 0.15),
+  // repos that haven't been pushed to in a year count for this much
+  staleRepoWeight: 0.3,
+  maxTopics: 20,
+  // this many repos pushed to in the last 90 days is as active as it gets
+  activeRepos: 5,
+  refreshDays: 7,
+};
+
+export type CompatibilityConfig = typeof compatibilityConfig;
+
+export interface RepoSignal {
+  language: string | null;
+  topics: string[];
+  pushedAt: Date;
+  fork: boolean;
+}
+
+export interface CompatibilitySignals {
+  languages: Record<string, number>;
+  topics: string[];
+  activity: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const deriveSignals = (
+  repos: RepoSignal[],
+  config: CompatibilityConfig = compatibilityConfig,
+  now = Date.now()
+): CompatibilitySignals => {
+  const weights: Record<string, number> = {};
+  const add = (language: string, weight: number) => {
+    weights[language] = (weights[language] || 0) + weight;
+  };
+
+  const topicCounts: Record<string, number> = {};
+  let recent = 0;
+  repos
+    .filter((r) => !r.fork)
+    .forEach((r) => {
+      const age = now - new Date(r.pushedAt).getTime();
+      if (r.language) {
+        add(r.language, age > 365 * DAY_MS ? config.staleRepoWeight : 1);
+      }
+      r.topics.forEach((t) => {
+        topicCounts[t] = (topicCounts[t] || 0) + 1;
+      });
+      if (age <= 90 * DAY_MS) {
+        recent++;
+      }
+    });
+
+  const total = Object.values(weights).reduce((acc, w) => acc + w, 0);
+  const languages: Record<string, number> = {};
+  Object.entries(weights).forEach(([l, w]) => {
+    languages[l] = w / total;
+  });
+
+  return {
+    languages,
+    topics: Object.entries(topicCounts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, config.maxTopics)
+      .map(([t]) => t),
+    activity: Math.min(1, recent / config.activeRepos),
+  };
+};
+
+const cosine = (a: Record<string, number>, b: Record<string, number>) => {
+  let dot = 0;
+  Object.keys(a).forEach((k) => {
+    dot += a[k] * (b[k] || 0);
+  });
+  const norm = (x: Record<string, number>) =>
+    Math.sqrt(Object.values(x).reduce((acc, v) => acc + v * v, 0));
+  const n = norm(a) * norm(b);
+  return n ? dot / n : 0;
+};
+
+const jaccard = (a: string[], b: string[]) => {
+  const setB = new Set(b);
+  const both = a.filter((x) => setB.has(x)).length;
+  const either = new Set([...a, ...b]).size;
+  return either ? both / either : 0;
+};
+
+// 0 to 1, the same both ways
+export const scoreCompatibility = (
+  a: CompatibilitySignals,
+  b: CompatibilitySignals,
+  config: CompatibilityConfig = compatibilityConfig
+) => {
+  const total =
+    config.languageWeight + config.topicWeight + config.activityWeight;
+  if (!total) {
+    return 0;
+  }
+  return (
+    (config.languageWeight * cosine(a.languages, b.languages) +
+      config.topicWeight * jaccard(a.topics, b.topics) +
+      config.activityWeight * (1 - Math.abs(a.activity - b.activity))) /
+    total
+  );
+};
+
+// candidates come in with the rank the feed query gave them, lower is better
+export const rankByCompatibility = async (
+  viewerId: string,
+  candidates: Array<{ id: string; rank: number }>,
+  config: CompatibilityConfig = compatibilityConfig
+) => {
+  const byRank = () =>
+    [...candidates].sort((a, b) => a.rank - b.rank).map((x) => x.id);
+  if (!candidates.length || !config.feedWeight) {
+    return byRank();
+  }
+
+  // empty profiles are the ones the job hasn't gotten to or couldn't fetch
+  const profiles: CompatibilityProfile[] = await getConnection().query(
+    `
+    select p.* from compatibility_profile p
+    inner join "user" u on u.id = p."userId"
+    where p."userId" = any($1)
+    and u."compatibilityScoring"
+    and p.languages != '{}'
+  `,
+    [[viewerId, ...candidates.map((x) => x.id)]]
+  );
+  const viewer = profiles.find((p) => p.userId === viewerId);
+  if (!viewer) {
+    return byRank();
+  }
+  const scores: Record<string, number> = {};
+  profiles.forEach((p) => {
+    scores[p.userId] = scoreCompatibility(viewer, p, config);
+  });
+
+  return candidates
+    .map((x) => ({
+      id: x.id,
+      rank: x.rank - config.feedWeight * (scores[x.id] || 0),
+    }))
+    .sort((a, b) => a.rank - b.rank)
+    .map((x) => x.id);
+};
+
+const GITHUB_API = "https://api.github.com";
+// one slow response shouldn't hold up the rest of the batch
+const GITHUB_TIMEOUT_MS = 10 * 1000;
+
+// the token's own repos, or the public ones when the token stopped working
+const fetchGitHubRepos = async (identity: Identity): Promise<RepoSignal[]> => {
+  const headers = {
+    // topics are still behind a preview
+    Accept: "application/vnd.github.mercy-preview+json",
+  };
+  let r = identity.accessToken
+    ? await fetch(
+        `${GITHUB_API}/user/repos?per_page=100&sort=pushed&affiliation=owner`,
+        {
+          headers: {
+            ...headers,
+            Authorization: `token ${identity.accessToken}`,
+          },
+          timeout: GITHUB_TIMEOUT_MS,
+        }
+      )
+    : null;
+  if ((!r || r.status === 401) && identity.username) {
+    r = await fetch(
+      `${GITHUB_API}/users/${encodeURIComponent(
+        identity.username
+      )}/repos?per_page=100&sort=pushed`,
+      { headers, timeout: GITHUB_TIMEOUT_MS }
+    );
+  }
+  if (!r || !r.ok) {
+    throw new Error(`github repos: ${r ? r.status : "no token or username"}`);
+  }
+
+  const repos: any[] = await r.json();
+  return repos.map((x) => ({
+    language: x.language || null,
+    topics: x.topics || [],
+    pushedAt: new Date(x.pushed_at),
+    fork: !!x.fork,
+  }));
+};
+
+export const refreshCompatibilityProfile = async (userId: string) => {
+  const user = await User.findOne(userId);
+  if (!user || !user.compatibilityScoring) {
+    await CompatibilityProfile.delete(userId);
+    return;
+  }
+
+  const github = await Identity.findOne({ userId, provider: "github" });
+  const repos = github ? await fetchGitHubRepos(github) : [];
+  if (!repos.length) {
+    await CompatibilityProfile.delete(userId);
+    return;
+  }
+
+  const signals = deriveSignals(repos);
+  // they might have opted out while github was answering, nothing gets saved
+  // then
+  await getConnection().query(
+    `
+    insert into compatibility_profile ("userId", languages, topics, activity, "computedAt")
+    select id, $2, $3, $4, now() from "user"
+    where id = $1 and "compatibilityScoring"
+    on conflict ("userId") do update
+    set languages = excluded.languages, topics = excluded.topics,
+    activity = excluded.activity, "computedAt" = excluded."computedAt"
+  `,
+    [userId, signals.languages, signals.topics, signals.activity]
+  );
+};
+
+const JOB_BATCH_SIZE = 20;
+
+const refreshDueProfiles = async () => {
+  // active people without a profile get an empty one so they're picked up
+  // below
+  await getConnection().query(`
+    insert into compatibility_profile ("userId", "computedAt")
+    select distinct s."userId", to_timestamp(0)
+    from session s
+    inner join "user" u on u.id = s."userId"
+    where s."revokedAt" is null
+    and s."lastSeenAt" > now() - interval '3 days'
+    and u."compatibilityScoring"
+    on conflict ("userId") do nothing
+  `);
+
+  // claimed by bumping computedAt so other instances running the same cron
+  // skip them
+  const [rows]: [Array<{ userId: string }>] = await getConnection().query(
+    `
+    update compatibility_profile set "computedAt" = now()
+    where "userId" in (
+      select "userId" from compatibility_profile
+      where "computedAt" < now() - $1 * interval '1 day'
+      order by "computedAt"
+      limit $2
+      for update skip locked
+    )
+    returning "userId"
+  `,
+    [compatibilityConfig.refreshDays, JOB_BATCH_SIZE]
+  );
+
+  for (const { userId } of rows) {
+    try {
+      await refreshCompatibilityProfile(userId);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+};
+
+export const startCompatibilityRunner = () => {
+  // every 10 minutes
+  new CronJob(
+    "0 */10 * * * *",
+    async () => {
+      try {
+        await refreshDueProfiles();
+      } catch (error) {
+        console.error(error);
+      }
+    },
+    null,
+    true,
+    "America/Chicago"
+  );
+};
@@ -0,0 +1,219 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { getConnection } from "typeorm";
+import { revokeSessions } from "./auth/sessions";
+import { DemoAccount } from "./entities/DemoAccount";
+import { Match } from "./entities/Match";
+import { Message } from "./entities/Message";
+import { User } from "./entities/User";
+import { View } from "./entities/View";
+import { refreshLastMessage } from "./queries/refreshLastMessage";
+import { getUserIdOrder } from "./utils";
+
+// Demo accounts are for app review. They log in with an email and password
+// through /email/login and are configured with DEMO_ACCOUNTS:
+//
+//   DEMO_ACCOUNTS=review@vsinder.com=scrypt:<salt>:<hash>,other@vsinder.com=...
+//
+// the hashes come from `yarn demo-hash <password>`. On startup every account in
+// there gets a user with some sample matches and messages. Demo users are
+// flagged with isDemo and the feed keeps them apart from everyone else.
+
+const DEMO_CODE_IMG_ID = "v56pytkbl-1606765556556.png";
+const DEMO_PHOTO_URL = "https://via.placeholder.com/150x150";
+
+interface DemoPersona {
+  key: string;
+  displayName: string;
+  bio: string;
+  // matched personas come with a conversation, the rest have just liked the
+  // demo user so there's someone to swipe on
+  messages?: Array<{ fromDemoUser: boolean; text: string }>;
+}
+
+const demoPersonas: DemoPersona[] = [
+  {
+    key: "ada",
+    displayName: "Ada",
+    bio: "tabs > spaces, fight me",
+    messages: [
+      { fromDemoUser: false, text: "hey! nice snippet" },
+      { fromDemoUser: true, text: "thanks, yours too" },
+      { fromDemoUser: false, text: "want to pair on something this weekend?" },
+    ],
+  },
+  {
+    key: "linus",
+    displayName: "Linus",
+    bio: "mostly writing rust these days",
+    messages: [
+      { fromDemoUser: false, text: "what's your favorite editor theme?" },
+    ],
+  },
+  {
+    key: "grace",
+    displayName: "Grace",
+    bio: "debugging is my cardio",
+  },
+  {
+    key: "alan",
+    displayName: "Alan",
+    bio: "will review your PR for coffee",
+  },
+];
+
+const demoProfile = (displayName: string, bio: string): Partial<User> => ({
+  displayName,
+  bio,
+  goal: "friendship",
+  birthday: new Date("1995-06-01"),
+  codeImgIds: [DEMO_CODE_IMG_ID],
+  photoUrl: DEMO_PHOTO_URL,
+  isDemo: true,
+});
+
+const scryptAsync = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, 64, (err, key) => (err ? reject(err) : resolve(key)))
+  );
+
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [alg, salt, hash] = stored.split(":");
+  if (alg !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const key = await scryptAsync(password, Buffer.from(salt, "hex"));
+  const expected = Buffer.from(hash, "hex");
+  return key.length === expected.length && timingSafeEqual(key, expected);
+};
+
+const parseDemoAccountsConfig = (raw = process.env.DEMO_ACCOUNTS || "") =>
+  raw
+    .split(",")
+    .map((entry) => {
+      const i = entry.indexOf("=");
+      return {
+        email: entry.slice(0, i).trim().toLowerCase(),
+        passwordHash: entry.slice(i + 1).trim(),
+      };
+    })
+    .filter((x) => x.email && x.passwordHash.startsWith("scrypt:"));
+
+// personas are shared by every demo account
+const ensurePersonas = async () => {
+  const rows: Array<{
+    id: string;
+    key: string;
+  }> = await getConnection().query(`
+    select id, other->>'demoPersona' "key"
+    from "user"
+    where "isDemo" and other->>'demoPersona' is not null
+  `);
+  const ids: Record<string, string> = {};
+  rows.forEach((r) => {
+    ids[r.key] = r.id;
+  });
+
+  for (const p of demoPersonas) {
+    if (!(p.key in ids)) {
+      const u = await User.create({
+        ...demoProfile(p.displayName, p.bio),
+        other: { demoPersona: p.key },
+      }).save();
+      ids[p.key] = u.id;
+    }
+  }
+
+  return ids;
+};
+
+const seedSampleData = async (
+  userId: string,
+  personaIds: Record<string, string>
+) => {
+  for (const p of demoPersonas) {
+    const personaId = personaIds[p.key];
+    await View.insert({ viewerId: personaId, targetId: userId, liked: true });
+    await User.update(userId, { numLikes: () => '"numLikes" + 1' });
+    if (!p.messages) {
+      continue;
+    }
+
+    await View.insert({ viewerId: userId, targetId: personaId, liked: true });
+    const { identifiers } = await Match.insert(
+      getUserIdOrder(userId, personaId)
+    );
+    const matchId = identifiers[0].id;
+    for (const m of p.messages) {
+      await Message.insert({
+        matchId,
+        senderId: m.fromDemoUser ? userId : personaId,
+        recipientId: m.fromDemoUser ? personaId : userId,
+        text: m.text,
+      });
+    }
+    await Match.update(matchId, {
+      lastMessageAt: new Date(),
+      lastActivityAt: new Date(),
+    });
+    await refreshLastMessage(matchId);
+  }
+};
+
+const syncDemoAccounts = async () => {
+  const config = parseDemoAccountsConfig();
+  // taking an account out of the config takes away its login, including
+  // whatever it's already logged in with
+  const [
+    removed,
+  ] = await getConnection().query(
+    `delete from demo_account where not (email = any($1)) returning "userId"`,
+    [config.map((x) => x.email)]
+  );
+  for (const { userId } of removed as Array<{ userId: string }>) {
+    await User.update(userId, { tokenVersion: () => '"tokenVersion" + 1' });
+    await revokeSessions(userId);
+  }
+  if (!config.length) {
+    return;
+  }
+
+  const personaIds = await ensurePersonas();
+  for (const { email, passwordHash } of config) {
+    const account = await DemoAccount.findOne(email);
+    if (account) {
+      if (account.passwordHash !== passwordHash) {
+        await DemoAccount.update(email, { passwordHash });
+      }
+      continue;
+    }
+
+    const user = await User.create(
+      demoProfile("App Review", "just looking around")
+    ).save();
+    await DemoAccount.insert({ email, passwordHash, userId: user.id });
+    await seedSampleData(user.id, personaIds);
+  }
+};
+
+// every instance runs this on startup, the lock makes the others wait so an
+// account is only ever seeded once
+export const seedDemoAccounts = () =>
+  getConnection().transaction(async (em) => {
+    await em.query(`select pg_advisory_xact_lock(hashtext('demo-accounts'))`);
+    await syncDemoAccounts();
+  });
+
+// null when the email isn't a demo account or the password is wrong
+export const loginDemoAccount = async (email: string, password: string) => {
+  const account = await DemoAccount.findOne(email.trim().toLowerCase());
+  if (!account || !(await verifyPassword(password, account.passwordHash))) {
+    return null;
+  }
+  return User.findOne(account.userId);
+};
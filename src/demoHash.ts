@@ -0,0 +1,9 @@
+import { hashPassword } from "./demoAccounts";
+
+// prints the hash to put in DEMO_ACCOUNTS: yarn demo-hash <password>
+const password = process.argv[2];
+if (!password) {
+  console.log("usage: yarn demo-hash <password>");
+  process.exit(1);
+}
+hashPassword(password).then((hash) => console.log(hash));
@@ -0,0 +1,40 @@
+import {
+  BaseEntity,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from "typeorm";
+import { User } from "./User";
+
+@Index(["blockedId"])
+@Entity()
+export class Block extends BaseEntity {
+  @PrimaryColumn()
+  blockerId: string;
+
+  @PrimaryColumn()
+  blockedId: string;
+
+  @ManyToOne(() => User, (u) => u.blocks, {
+    primary: true,
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "blockerId" })
+  blocker: Promise<User>;
+
+  @ManyToOne(() => User, (u) => u.blockedBy, {
+    primary: true,
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "blockedId" })
+  blocked: Promise<User>;
+
+  @CreateDateColumn({
+    type: "timestamp with time zone",
+    transformer: { from: (a) => a.getTime(), to: (a) => a },
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  BaseEntity,
+  Column,
+  Entity,
+  JoinColumn,
+  OneToOne,
+  PrimaryColumn,
+} from "typeorm";
+import { User } from "./User";
+
+// what the feed knows about someone's code, see compatibility.ts
+@Entity()
+export class CompatibilityProfile extends BaseEntity {
+  @PrimaryColumn("uuid")
+  userId: string;
+
+  @OneToOne(() => User, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "userId" })
+  user: Promise<User>;
+
+  // language -> share of their code, adds up to 1
+  @Column("jsonb", { default: {} })
+  languages: Record<string, number>;
+
+  @Column("text", { array: true, default: "{}" })
+  topics: string[];
+
+  // 0 to 1, how much they've been pushing lately
+  @Column("real", { default: 0 })
+  activity: number;
+
+  @Column("timestamp with time zone", { default: () => "now()" })
+  computedAt: Date;
+}
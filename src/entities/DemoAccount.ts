@@ -0,0 +1,33 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from "typeorm";
+import { User } from "./User";
+
+// email/password logins for app review, see demoAccounts.ts
+@Entity()
+export class DemoAccount extends BaseEntity {
+  @PrimaryColumn("text")
+  email: string;
+
+  // scrypt, never the password itself
+  @Column("text")
+  passwordHash: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "userId" })
+  user: Promise<User>;
+
+  @CreateDateColumn({ type: "timestamp with time zone" })
+  createdAt: Date;
+}
@@ -13,6 +13,7 @@ export class Feed extends BaseEntity {
   @PrimaryGeneratedColumn("uuid")
   id: string;
 
+  // how far into userIds the owner has been served, see feedQueue.ts
   @Column("int", { nullable: true })
   cursor: number;
 
@@ -20,7 +21,10 @@ export class Feed extends BaseEntity {
   userIds: string[];
 
   @Column()
-  ownerId: number;
+  ownerId: string;
+
+  @Column("timestamp with time zone", { default: () => "now()" })
+  refreshedAt: Date;
 
   @OneToOne(() => User, {
     primary: true,
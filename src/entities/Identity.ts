@@ -0,0 +1,46 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from "typeorm";
+import { User } from "./User";
+
+export type LoginProvider = "github" | "gitlab" | "bitbucket" | "apple";
+
+// one row per way a user can log in
+@Entity()
+export class Identity extends BaseEntity {
+  @PrimaryColumn("text")
+  provider: LoginProvider;
+
+  // the user's id on the provider's side
+  @PrimaryColumn("text")
+  providerId: string;
+
+  @Index()
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, (u) => u.identities, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "userId" })
+  user: Promise<User>;
+
+  @Column("text", { nullable: true })
+  accessToken: string | null;
+
+  @Column("text", { nullable: true })
+  username: string | null;
+
+  @Column("text", { nullable: true })
+  profileUrl: string | null;
+
+  @CreateDateColumn({ type: "timestamp with time zone" })
+  createdAt: Date;
+}
@@ -3,6 +3,7 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   JoinColumn,
   ManyToOne,
   OneToMany,
@@ -13,6 +14,8 @@ import { Message } from "./Message";
 import { User } from "./User";
 
 @Unique(["userId1", "userId2"])
+@Index(["userId1", "lastActivityAt"])
+@Index(["userId2", "lastActivityAt"])
 @Entity()
 export class Match extends BaseEntity {
   @PrimaryGeneratedColumn("uuid")
@@ -48,6 +51,17 @@ export class Match extends BaseEntity {
   @OneToMany(() => Message, (m) => m.match)
   messages: Promise<Message[]>;
 
+  // denormalized so /matches doesn't need to look through message
+  @Column("text", { nullable: true })
+  lastMessageText: string | null;
+
+  @Column("timestamp with time zone", { nullable: true })
+  lastMessageAt: Date | null;
+
+  // lastMessageAt, or createdAt if nobody has said anything yet
+  @Column("timestamp with time zone", { default: () => "now()" })
+  lastActivityAt: Date;
+
   @CreateDateColumn({ type: "timestamp with time zone" })
   createdAt: Date;
 }
@@ -5,9 +5,11 @@ import {
   Entity,
   JoinColumn,
   ManyToOne,
+  OneToMany,
   PrimaryGeneratedColumn,
 } from "typeorm";
 import { Match } from "./Match";
+import { MessageReaction } from "./MessageReaction";
 import { User } from "./User";
 
 @Entity()
@@ -42,9 +44,38 @@ export class Message extends BaseEntity {
   @JoinColumn({ name: "recipientId" })
   recipient: Promise<User>;
 
+  @Column("text", { default: "text" })
+  type: "text" | "code";
+
+  // for code messages this is an optional caption
   @Column("text")
   text: string;
 
+  @Column("text", { nullable: true })
+  code: string | null;
+
+  @Column("text", { nullable: true })
+  language: string | null;
+
+  @Column("text", { nullable: true })
+  filename: string | null;
+
+  @Column("timestamp with time zone", { nullable: true })
+  deliveredAt: Date | null;
+
+  @Column("timestamp with time zone", { nullable: true })
+  readAt: Date | null;
+
+  @Column("timestamp with time zone", { nullable: true })
+  editedAt: Date | null;
+
+  // soft delete, the text gets cleared when this is set
+  @Column("timestamp with time zone", { nullable: true })
+  deletedAt: Date | null;
+
+  @OneToMany(() => MessageReaction, (r) => r.message)
+  reactions: Promise<MessageReaction[]>;
+
   @CreateDateColumn({
     type: "timestamp with time zone",
     transformer: { from: (a) => a.getTime(), to: (a) => a },
@@ -0,0 +1,39 @@
+import {
+  BaseEntity,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from "typeorm";
+import { Message } from "./Message";
+import { User } from "./User";
+
+@Entity()
+export class MessageReaction extends BaseEntity {
+  @PrimaryColumn()
+  messageId: string;
+
+  @PrimaryColumn()
+  userId: string;
+
+  @PrimaryColumn("text")
+  emoji: string;
+
+  @ManyToOne(() => Message, (m) => m.reactions, {
+    primary: true,
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "messageId" })
+  message: Promise<Message>;
+
+  @ManyToOne(() => User, {
+    primary: true,
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "userId" })
+  user: Promise<User>;
+
+  @CreateDateColumn({ type: "timestamp with time zone" })
+  createdAt: Date;
+}
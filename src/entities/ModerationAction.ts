@@ -0,0 +1,80 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { Report } from "./Report";
+import { User } from "./User";
+
+export type ModerationActionType =
+  | "resolve-report"
+  | "dismiss-report"
+  | "shadow-ban"
+  | "ban"
+  | "unban"
+  | "reset-images"
+  | "flag-for-review";
+
+// audit trail, rows are never updated or deleted by the app
+@Entity()
+export class ModerationAction extends BaseEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column("text")
+  action: ModerationActionType;
+
+  // null when the action didn't come from a logged in admin (e.g. slack)
+  @Column("uuid", { nullable: true })
+  moderatorId: string | null;
+
+  @ManyToOne(() => User, {
+    onDelete: "SET NULL",
+  })
+  @JoinColumn({ name: "moderatorId" })
+  moderator: Promise<User>;
+
+  @Column("text", { nullable: true })
+  slackUser: string | null;
+
+  @Index()
+  @Column("uuid", { nullable: true })
+  targetId: string | null;
+
+  @ManyToOne(() => User, {
+    onDelete: "SET NULL",
+  })
+  @JoinColumn({ name: "targetId" })
+  target: Promise<User>;
+
+  @Column("uuid", { nullable: true })
+  reportId: string | null;
+
+  @ManyToOne(() => Report, {
+    onDelete: "SET NULL",
+  })
+  @JoinColumn({ name: "reportId" })
+  report: Promise<Report>;
+
+  @Column("text", { default: "" })
+  reason: string;
+
+  // taken by the auto moderation rules instead of a person
+  @Column("boolean", { default: false })
+  automatic: boolean;
+
+  // set on the unban that undid an earlier action
+  @Column("uuid", { nullable: true })
+  revertsActionId: string | null;
+
+  @CreateDateColumn({
+    type: "timestamp with time zone",
+    transformer: { from: (a) => a.getTime(), to: (a) => a },
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,71 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { User } from "./User";
+
+export type PushNotificationStatus = "queued" | "sent" | "failed";
+
+@Index(["status", "nextAttemptAt"])
+@Entity()
+export class PushNotification extends BaseEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "userId" })
+  user: Promise<User>;
+
+  @Column()
+  otherId: string;
+
+  @ManyToOne(() => User, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "otherId" })
+  other: Promise<User>;
+
+  @Column("text")
+  type: "match" | "message" | "like";
+
+  @Column("text", { nullable: true })
+  text: string | null;
+
+  // set for code snippet messages, which get summarized instead of shown
+  @Column("text", { nullable: true })
+  language: string | null;
+
+  @Column("text", { default: "queued" })
+  status: PushNotificationStatus;
+
+  @Column("int", { default: 0 })
+  attempts: number;
+
+  // when the notification should next be sent, or when its receipt should be checked
+  @Column("timestamp with time zone", { default: () => "now()" })
+  nextAttemptAt: Date;
+
+  // the token it was sent to, so a DeviceNotRegistered receipt clears the right one
+  @Column("text", { nullable: true })
+  pushToken: string | null;
+
+  @Column("text", { nullable: true })
+  ticketId: string | null;
+
+  @Column("text", { nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn({ type: "timestamp with time zone" })
+  createdAt: Date;
+}
@@ -3,12 +3,16 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   JoinColumn,
   ManyToOne,
   PrimaryGeneratedColumn,
 } from "typeorm";
 import { User } from "./User";
 
+export type ReportStatus = "open" | "resolved" | "dismissed";
+
+@Index(["status", "targetId"])
 @Entity()
 export class Report extends BaseEntity {
   @PrimaryGeneratedColumn("uuid")
@@ -37,6 +41,28 @@ export class Report extends BaseEntity {
   @Column("text")
   message: string;
 
+  @Column("text", { default: "open" })
+  status: ReportStatus;
+
+  @Column("uuid", { nullable: true })
+  resolvedById: string | null;
+
+  @ManyToOne(() => User, {
+    onDelete: "SET NULL",
+  })
+  @JoinColumn({ name: "resolvedById" })
+  resolvedBy: Promise<User>;
+
+  // set instead of resolvedById when the report was handled from slack
+  @Column("text", { nullable: true })
+  resolvedBySlackUser: string | null;
+
+  @Column("timestamp with time zone", { nullable: true })
+  resolvedAt: Date | null;
+
+  @Column("text", { nullable: true })
+  resolutionNote: string | null;
+
   @CreateDateColumn({
     type: "timestamp with time zone",
     transformer: { from: (a) => a.getTime(), to: (a) => a },
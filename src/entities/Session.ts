@@ -0,0 +1,54 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { User } from "./User";
+
+// one per login, its id is baked into the tokens handed out for it
+@Entity()
+export class Session extends BaseEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, (u) => u.sessions, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "userId" })
+  user: Promise<User>;
+
+  // user agent of whatever logged in
+  @Column("text", { nullable: true })
+  device: string | null;
+
+  @Column("text", { nullable: true })
+  ip: string | null;
+
+  @Column("timestamp with time zone", { default: () => "now()" })
+  lastSeenAt: Date;
+
+  @Column("timestamp with time zone", { nullable: true })
+  revokedAt: Date | null;
+
+  // refresh tokens are single use, this is the one that can be swapped next
+  @Column("text", { nullable: true })
+  refreshTokenId: string | null;
+
+  @Column("text", { nullable: true })
+  previousRefreshTokenId: string | null;
+
+  @Column("timestamp with time zone", { nullable: true })
+  rotatedAt: Date | null;
+
+  @CreateDateColumn({ type: "timestamp with time zone" })
+  createdAt: Date;
+}
@@ -11,18 +11,15 @@ import { View } from "./View";
 import { Match } from "./Match";
 import { Message } from "./Message";
 import { Report } from "./Report";
+import { Block } from "./Block";
+import { Session } from "./Session";
+import { Identity } from "./Identity";
 
 @Entity()
 export class User extends BaseEntity {
   @PrimaryGeneratedColumn("uuid")
   id: string;
 
-  @Column("text", { unique: true, nullable: true })
-  appleId: string | null;
-
-  @Column("text", { unique: true, nullable: true })
-  githubId: string | null;
-
   @Column("text", { unique: true, nullable: true })
   username: string | null;
 
@@ -50,9 +47,23 @@ export class User extends BaseEntity {
   @Column("int", { nullable: true })
   ageRangeMax: number | null;
 
+  // free text, shown as is. matching uses the coordinates when there are some
   @Column("text", { nullable: true })
   location: string | null;
 
+  // one of the ids in cities.ts when the location is a known city
+  @Column("text", { nullable: true })
+  cityId: string | null;
+
+  @Column("real", { nullable: true })
+  latitude: number | null;
+
+  @Column("real", { nullable: true })
+  longitude: number | null;
+
+  @Column("int", { default: 100 })
+  maxDistanceKm: number;
+
   @Column("text", { default: "{}", array: true })
   codeImgIds: string[];
 
@@ -65,9 +76,6 @@ export class User extends BaseEntity {
   @Column("int", { default: 0 })
   numLikes: number;
 
-  @Column("text", { nullable: true })
-  githubAccessToken: string | null;
-
   @Column("boolean", { default: true })
   global: boolean;
 
@@ -80,17 +88,62 @@ export class User extends BaseEntity {
   @Column("boolean", { default: false })
   shadowBanned: boolean;
 
+  // hard ban, can't log in or refresh tokens
+  @Column("boolean", { default: false })
+  banned: boolean;
+
+  @Column("text", { default: "user" })
+  role: "user" | "admin";
+
+  // demo accounts and their sample matches only ever see each other
+  @Column("boolean", { default: false })
+  isDemo: boolean;
+
   @Column("int", { default: 1 })
   tokenVersion: number;
 
   @Column("text", { nullable: true })
-  pushToken: string;
+  pushToken: string | null;
+
+  @Column("boolean", { default: true })
+  notifyMatches: boolean;
+
+  @Column("boolean", { default: true })
+  notifyMessages: boolean;
+
+  @Column("boolean", { default: true })
+  notifyLikes: boolean;
+
+  // "HH:MM" in the user's timezone, null means no quiet hours
+  @Column("text", { nullable: true })
+  quietHoursStart: string | null;
+
+  @Column("text", { nullable: true })
+  quietHoursEnd: string | null;
+
+  @Column("text", { default: "UTC" })
+  timezone: string;
+
+  // false opts out of having their github repos used to rank feeds
+  @Column("boolean", { default: true })
+  compatibilityScoring: boolean;
 
   @OneToMany(() => Report, (m) => m.reporter)
   reports: Promise<Report[]>;
   @OneToMany(() => Report, (m) => m.target)
   reportsAgainstMe: Promise<Report[]>;
 
+  @OneToMany(() => Session, (m) => m.user)
+  sessions: Promise<Session[]>;
+
+  @OneToMany(() => Identity, (m) => m.user)
+  identities: Promise<Identity[]>;
+
+  @OneToMany(() => Block, (m) => m.blocker)
+  blocks: Promise<Block[]>;
+  @OneToMany(() => Block, (m) => m.blocked)
+  blockedBy: Promise<Block[]>;
+
   @OneToMany(() => View, (m) => m.viewer)
   views: Promise<View[]>;
   @OneToMany(() => View, (m) => m.target)
@@ -10,7 +10,30 @@ declare namespace NodeJS {
     APPLE_KEY_ID: string;
     APPLE_SERVICE_ID: string;
     APPLE_TEAM_ID: string;
-    APPLE_EMAIL: string;
-    APPLE_PASSWORD: string;
+    // gitlab and bitbucket logins are off unless these are set
+    GITLAB_CLIENT_ID?: string;
+    GITLAB_CLIENT_SECRET?: string;
+    // defaults to gitlab.com
+    GITLAB_URL?: string;
+    BITBUCKET_CLIENT_ID?: string;
+    BITBUCKET_CLIENT_SECRET?: string;
+    // app review logins, see demoAccounts.ts
+    DEMO_ACCOUNTS?: string;
+    // the ios app's bundle id, the audience of its identity tokens
+    APPLE_BUNDLE_ID?: string;
+    // defaults to apple's, can point at a local key set
+    APPLE_KEYS_URL?: string;
+    // optional auto moderation tuning, see autoModeration.ts
+    AUTO_MOD_WINDOW_DAYS?: string;
+    AUTO_MOD_REVIEW_SCORE?: string;
+    AUTO_MOD_SHADOW_BAN_SCORE?: string;
+    AUTO_MOD_NEW_ACCOUNT_DAYS?: string;
+    AUTO_MOD_UNTRUSTED_REPORTS?: string;
+    AUTO_MOD_HIGH_REJECT_RATIO?: string;
+    // optional feed compatibility tuning, see compatibility.ts
+    COMPAT_FEED_WEIGHT?: string;
+    COMPAT_LANGUAGE_WEIGHT?: string;
+    COMPAT_TOPIC_WEIGHT?: string;
+    COMPAT_ACTIVITY_WEIGHT?: string;
   }
 }
@@ -0,0 +1,217 @@
+import { CronJob } from "cron";
+import { getConnection } from "typeorm";
+import { rankByCompatibility } from "./compatibility";
+import { Feed } from "./entities/Feed";
+import { User } from "./entities/User";
+import {
+  buildFeedQuery,
+  FEED_PAGE_SIZE,
+  FeedFilterSpec,
+  feedFilterSpec,
+} from "./feedRanking";
+
+// Every active user gets a ranked queue of candidates in their feed row so
+// /feed doesn't have to run the ranking query each time. /feed hands out pages
+// from the cursor, the queue is topped up in the background when it runs low
+// and rebuilt from scratch when it runs dry.
+
+// candidates queued up per person
+const QUEUE_SIZE = 200;
+// top up once fewer than this are left
+const REFILL_AT = 60;
+// people seen in the last n days get their queue kept warm
+const ACTIVE_DAYS = 3;
+// older queues get rebuilt so new sign ups show up
+const MAX_AGE_HOURS = 6;
+const JOB_BATCH_SIZE = 50;
+
+// rebuilds userId's queue. users that can't have a feed lose theirs
+export const fillFeedQueue = async (userId: string) => {
+  const user = await User.findOne(userId);
+  const spec = user && feedFilterSpec(user);
+  if (!spec) {
+    await Feed.delete({ ownerId: userId });
+    return;
+  }
+
+  // a bigger pool than the queue so compatibility has something to pick from
+  const { text, values } = buildFeedQuery(spec, { limit: QUEUE_SIZE * 2 });
+  const rows: Array<{ id: string; rank: number }> = await getConnection().query(
+    text,
+    values
+  );
+  const userIds = (await rankByCompatibility(userId, rows)).slice(
+    0,
+    QUEUE_SIZE
+  );
+  await getConnection().query(
+    `
+    insert into feed ("ownerId", "userIds", cursor, "refreshedAt")
+    values ($1, $2, 0, now())
+    on conflict ("ownerId") do update
+    set "userIds" = excluded."userIds", cursor = 0, "refreshedAt" = now()
+  `,
+    [userId, userIds]
+  );
+};
+
+interface QueuePage {
+  ids: string[];
+  // still queued after this page
+  left: number;
+}
+
+// moves the cursor forward and returns the ids it went past, in one statement
+// so two devices never get the same page
+const takeFromQueue = (userId: string) =>
+  getConnection()
+    .query(
+      `
+    with old as (
+      select id, coalesce(cursor, 0) "cursor" from feed
+      where "ownerId" = $1
+      for update
+    )
+    update feed f set cursor = least(
+      old.cursor + $2,
+      coalesce(array_length(f."userIds", 1), 0)
+    )
+    from old
+    where f.id = old.id
+    returning f."userIds"[old.cursor + 1 : f.cursor] ids,
+    coalesce(array_length(f."userIds", 1), 0) - f.cursor "left"
+  `,
+      [userId, FEED_PAGE_SIZE]
+    )
+    .then(([rows]: [QueuePage[]]): QueuePage | undefined => rows[0]);
+
+// the queue can be a few hours old, so it goes through the feed's filters
+// again. anyone viewed, blocked or banned since it was built gets dropped, and
+// so does anyone who changed their profile in a way that takes them out
+const profilesInOrder = async (spec: FeedFilterSpec, ids: string[]) => {
+  const { text, values } = buildFeedQuery(spec, { ids, limit: ids.length });
+  const rows: Array<{ rank: number }> = await getConnection().query(
+    text,
+    values
+  );
+  return rows.map(({ rank, ...profile }) => profile);
+};
+
+export const nextFeedPage = async (viewer: User) => {
+  const userId = viewer.id;
+  const spec = feedFilterSpec(viewer);
+  if (!spec) {
+    return [];
+  }
+
+  let page = await takeFromQueue(userId);
+  if (!page || page.ids.length < FEED_PAGE_SIZE) {
+    // whatever was left is in the new queue too, since none of it was viewed
+    await fillFeedQueue(userId);
+    page = await takeFromQueue(userId);
+  } else if (page.left < REFILL_AT) {
+    fillFeedQueue(userId).catch((err) => console.error(err));
+  }
+
+  return page?.ids.length ? profilesInOrder(spec, page.ids) : [];
+};
+
+const specKey = (spec: FeedFilterSpec | null) => JSON.stringify(spec);
+
+// true when an update to a profile changes who should be in its feed
+export const feedFiltersChanged = (before: User, after: User) =>
+  specKey(feedFilterSpec(before)) !== specKey(feedFilterSpec(after));
+
+// the next /feed builds a new queue
+export const invalidateFeedQueue = (userId: string) =>
+  Feed.delete({ ownerId: userId });
+
+// a swiped person is out of the viewer's queue for good
+export const removeFromFeedQueue = (viewerId: string, targetId: string) =>
+  getConnection().query(
+    `
+    update feed set
+    cursor = coalesce(cursor, 0) - (
+      case when array_position("userIds", $2) <= coalesce(cursor, 0) then 1 else 0 end
+    ),
+    "userIds" = array_remove("userIds", $2)
+    where "ownerId" = $1 and $2 = any("userIds")
+  `,
+    [viewerId, targetId]
+  );
+
+const refillDueQueues = async () => {
+  // queues of people who stopped using the app go away, new active people get
+  // an empty one so they're picked up below
+  await getConnection().query(
+    `
+    delete from feed f
+    where not exists (
+      select 1 from session s
+      where s."userId" = f."ownerId" and s."revokedAt" is null
+      and s."lastSeenAt" > now() - $1 * interval '1 day'
+    )
+  `,
+    [ACTIVE_DAYS]
+  );
+  await getConnection().query(
+    `
+    insert into feed ("ownerId", "userIds", "refreshedAt")
+    select distinct s."userId", '{}'::text[], to_timestamp(0)
+    from session s
+    inner join "user" u on u.id = s."userId"
+    where s."revokedAt" is null
+    and s."lastSeenAt" > now() - $1 * interval '1 day'
+    and u.birthday is not null
+    and u.banned != true
+    on conflict ("ownerId") do nothing
+  `,
+    [ACTIVE_DAYS]
+  );
+
+  // claimed by bumping refreshedAt so other instances running the same cron
+  // skip them
+  const [rows]: [Array<{ ownerId: string }>] = await getConnection().query(
+    `
+    update feed set "refreshedAt" = now()
+    where id in (
+      select id from feed
+      where "refreshedAt" < now() - $1 * interval '1 hour'
+      or (
+        coalesce(array_length("userIds", 1), 0) - coalesce(cursor, 0) < $2
+        and "refreshedAt" < now() - interval '5 minutes'
+      )
+      order by "refreshedAt"
+      limit $3
+      for update skip locked
+    )
+    returning "ownerId"
+  `,
+    [MAX_AGE_HOURS, REFILL_AT, JOB_BATCH_SIZE]
+  );
+
+  for (const { ownerId } of rows) {
+    try {
+      await fillFeedQueue(ownerId);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+};
+
+export const startFeedQueueRunner = () => {
+  // every 5 minutes
+  new CronJob(
+    "0 */5 * * * *",
+    async () => {
+      try {
+        await refillDueQueues();
+      } catch (error) {
+        console.error(error);
+      }
+    },
+    null,
+    true,
+    "America/Chicago"
+  );
+};
@@ -0,0 +1,360 @@
+import "reflect-metadata";
+import { join } from "path";
+import { Connection, createConnection } from "typeorm";
+import { Block } from "./entities/Block";
+import { User } from "./entities/User";
+import { View } from "./entities/View";
+import { buildFeedQuery, feedFilterSpec } from "./feedRanking";
+
+// Runs the real feed query against a throwaway database. Point
+// TEST_DATABASE_URL at one to run these, everything in it gets dropped.
+const databaseUrl = process.env.TEST_DATABASE_URL;
+
+const birthdayForAge = (age: number) => {
+  const d = new Date();
+  d.setFullYear(d.getFullYear() - age);
+  d.setMonth(d.getMonth() - 1);
+  return d;
+};
+
+const lover = (
+  gender: string,
+  genderToShow: string,
+  { age = 30, ...rest }: Partial<User> & { age?: number } = {}
+): Partial<User> => ({
+  goal: "love",
+  gender,
+  genderToShow,
+  birthday: birthdayForAge(age),
+  ageRangeMin: 18,
+  ageRangeMax: 99,
+  location: "Austin",
+  global: false,
+  ...rest,
+});
+
+const friend = (age = 30): Partial<User> => ({
+  goal: "friendship",
+  birthday: birthdayForAge(age),
+});
+
+(databaseUrl ? describe : describe.skip)("feed query", () => {
+  let conn: Connection;
+
+  // loading and running every migration takes a while on a cold cache
+  beforeAll(async () => {
+    conn = await createConnection({
+      type: "postgres",
+      url: databaseUrl,
+      entities: [join(__dirname, "./entities/*")],
+      migrations: [join(__dirname, "./migrations/*")],
+      dropSchema: true,
+      migrationsRun: true,
+      logging: false,
+    });
+  }, 60 * 1000);
+
+  afterAll(() => conn?.close());
+
+  beforeEach(() => conn.query(`truncate "user" cascade`));
+
+  const createUser = (data: Partial<User>) =>
+    User.create({
+      photoUrl: "",
+      codeImgIds: ["code.png"],
+      ...data,
+    }).save();
+
+  // ids the viewer's feed has in it, best ranked first
+  const feedFor = async (viewer: User) => {
+    const spec = feedFilterSpec(viewer);
+    if (!spec) {
+      throw new Error("viewer can't have a feed");
+    }
+    const { text, values } = buildFeedQuery(spec, { limit: 100 });
+    const rows: Array<{ id: string }> = await conn.query(text, values);
+    return rows.map((r) => r.id);
+  };
+
+  // seeds the viewer and every candidate, then returns who showed up
+  const seen = async (
+    viewerData: Partial<User>,
+    candidates: Record<string, Partial<User>>
+  ) => {
+    const viewer = await createUser(viewerData);
+    const names: Record<string, string> = {};
+    for (const [name, data] of Object.entries(candidates)) {
+      names[(await createUser(data)).id] = name;
+    }
+    return (await feedFor(viewer)).map((id) => names[id]);
+  };
+
+  describe("friendship feeds", () => {
+    it("keeps adults and minors apart", async () => {
+      expect(
+        (
+          await seen(friend(30), {
+            adult: friend(25),
+            minor: friend(16),
+            lover: lover("female", "male"),
+          })
+        ).sort()
+      ).toEqual(["adult", "lover"]);
+      await conn.query(`truncate "user" cascade`);
+      expect(
+        await seen(friend(16), { adult: friend(25), minor: friend(15) })
+      ).toEqual(["minor"]);
+    });
+  });
+
+  describe("love feeds", () => {
+    it("only shows people from the love feed", async () => {
+      expect(
+        await seen(lover("male", "female"), {
+          lover: lover("female", "male"),
+          friend: { ...friend(), gender: "female", genderToShow: "male" },
+        })
+      ).toEqual(["lover"]);
+    });
+
+    it("checks gender both ways", async () => {
+      expect(
+        (
+          await seen(lover("male", "female"), {
+            match: lover("female", "male"),
+            wantsWomen: lover("female", "female"),
+            wantsEveryone: lover("female", "everyone"),
+            man: lover("male", "male"),
+            nonbinary: lover("non-binary", "male"),
+          })
+        ).sort()
+      ).toEqual(["match"]);
+    });
+
+    it("shows every gender that wants the viewer to everyone viewers", async () => {
+      expect(
+        (
+          await seen(lover("female", "everyone"), {
+            man: lover("male", "female"),
+            woman: lover("female", "female"),
+            nonbinary: lover("non-binary", "female"),
+            notInterested: lover("male", "male"),
+          })
+        ).sort()
+      ).toEqual(["man", "nonbinary", "woman"]);
+    });
+
+    it("checks age ranges both ways", async () => {
+      expect(
+        (
+          await seen(
+            lover("male", "female", {
+              age: 30,
+              ageRangeMin: 25,
+              ageRangeMax: 35,
+            }),
+            {
+              inRange: lover("female", "male", { age: 28 }),
+              tooYoung: lover("female", "male", { age: 22 }),
+              tooOld: lover("female", "male", { age: 40 }),
+              // the viewer is too old for them
+              wantsYounger: lover("female", "male", {
+                age: 27,
+                ageRangeMin: 20,
+                ageRangeMax: 29,
+              }),
+              // the viewer is too young for them
+              wantsOlder: lover("female", "male", {
+                age: 33,
+                ageRangeMin: 31,
+                ageRangeMax: 40,
+              }),
+            }
+          )
+        ).sort()
+      ).toEqual(["inRange"]);
+    });
+
+    it("matches the location text when nobody has coordinates", async () => {
+      expect(
+        (
+          await seen(lover("male", "female"), {
+            sameCity: lover("female", "male"),
+            elsewhere: lover("female", "male", { location: "Berlin" }),
+            elsewhereGlobal: lover("female", "male", {
+              location: "Berlin",
+              global: true,
+            }),
+          })
+        ).sort()
+      ).toEqual(["sameCity"]);
+    });
+
+    it("keeps to both people's radius when there are coordinates", async () => {
+      // Austin
+      const here = { latitude: 30.27, longitude: -97.74, maxDistanceKm: 200 };
+      expect(
+        (
+          await seen(lover("male", "female", here), {
+            // San Antonio, about 120km away
+            near: lover("female", "male", {
+              latitude: 29.42,
+              longitude: -98.49,
+              maxDistanceKm: 150,
+            }),
+            // just as near, but only wants people within 50km
+            nearSmallRadius: lover("female", "male", {
+              latitude: 29.42,
+              longitude: -98.49,
+              maxDistanceKm: 50,
+            }),
+            // Dallas, about 300km away
+            far: lover("female", "male", {
+              latitude: 32.78,
+              longitude: -96.8,
+              maxDistanceKm: 500,
+            }),
+            // couldn't be placed, falls back to the text
+            unplacedSameText: lover("female", "male"),
+            unplacedOtherText: lover("female", "male", { location: "Dallas" }),
+          })
+        ).sort()
+      ).toEqual(["near", "unplacedSameText"]);
+    });
+
+    it("ranks closer people first", async () => {
+      const viewer = await createUser(
+        lover("male", "female", {
+          latitude: 30.27,
+          longitude: -97.74,
+          maxDistanceKm: 350,
+        })
+      );
+      const far = await createUser(
+        lover("female", "male", {
+          latitude: 32.78,
+          longitude: -96.8,
+          maxDistanceKm: 1000,
+        })
+      );
+      const near = await createUser(
+        lover("female", "male", {
+          latitude: 30.28,
+          longitude: -97.75,
+          maxDistanceKm: 1000,
+        })
+      );
+      // distance is added on top of random(), so it only wins most of the time
+      let nearFirst = 0;
+      for (let i = 0; i < 20; i++) {
+        const ids = await feedFor(viewer);
+        expect([...ids].sort()).toEqual([far.id, near.id].sort());
+        if (ids[0] === near.id) {
+          nearFirst++;
+        }
+      }
+      expect(nearFirst).toBeGreaterThan(10);
+    });
+
+    it("lets global people see other global people from anywhere", async () => {
+      expect(
+        (
+          await seen(lover("male", "female", { global: true }), {
+            globalElsewhere: lover("female", "male", {
+              location: "Berlin",
+              global: true,
+            }),
+            // global still has to want to see the viewer
+            globalWantsWomen: lover("female", "female", {
+              location: "Berlin",
+              global: true,
+            }),
+            localElsewhere: lover("female", "male", { location: "Berlin" }),
+            localSameCity: lover("female", "male"),
+          })
+        ).sort()
+      ).toEqual(["globalElsewhere", "localSameCity"]);
+    });
+
+    it("lets global people with coordinates see global people anywhere", async () => {
+      const austin = { latitude: 30.27, longitude: -97.74 };
+      const berlin = { location: "Berlin", latitude: 52.52, longitude: 13.4 };
+      expect(
+        (
+          await seen(lover("male", "female", { ...austin, global: true }), {
+            globalElsewhere: lover("female", "male", {
+              ...berlin,
+              global: true,
+            }),
+            localElsewhere: lover("female", "male", berlin),
+            localNearby: lover("female", "male", austin),
+          })
+        ).sort()
+      ).toEqual(["globalElsewhere", "localNearby"]);
+    });
+
+    it("puts nearby people first for global viewers", async () => {
+      const viewer = await createUser(
+        lover("male", "female", { global: true })
+      );
+      const nearby = await createUser(lover("female", "male"));
+      await createUser(
+        lover("female", "male", { location: "Berlin", global: true })
+      );
+      for (let i = 0; i < 5; i++) {
+        expect((await feedFor(viewer))[0]).toBe(nearby.id);
+      }
+    });
+  });
+
+  describe("every feed", () => {
+    it("leaves out people who can't or shouldn't be shown", async () => {
+      const viewer = await createUser(friend());
+      const shown = await createUser(friend());
+      const viewed = await createUser(friend());
+      const blocked = await createUser(friend());
+      const blockedMe = await createUser(friend());
+      await createUser({ ...friend(), shadowBanned: true });
+      await createUser({ ...friend(), banned: true });
+      await createUser({ ...friend(), isDemo: true });
+      await createUser({ ...friend(), codeImgIds: [] });
+      await View.insert({
+        viewerId: viewer.id,
+        targetId: viewed.id,
+        liked: false,
+      });
+      await Block.insert({ blockerId: viewer.id, blockedId: blocked.id });
+      await Block.insert({ blockerId: blockedMe.id, blockedId: viewer.id });
+
+      expect(await feedFor(viewer)).toEqual([shown.id]);
+    });
+
+    it("keeps demo accounts among themselves", async () => {
+      expect(
+        await seen(
+          { ...friend(), isDemo: true },
+          { demo: { ...friend(), isDemo: true }, real: friend() }
+        )
+      ).toEqual(["demo"]);
+    });
+  });
+
+  describe("serving a queued page", () => {
+    it("keeps the queue's order but checks everyone again", async () => {
+      const viewer = await createUser(lover("male", "female"));
+      const first = await createUser(lover("female", "male"));
+      const switched = await createUser(lover("female", "male"));
+      const second = await createUser(lover("female", "male"));
+      const grewOld = await createUser(lover("female", "male"));
+      // they changed their profiles after the queue was built
+      await User.update(switched.id, { goal: "friendship" });
+      await User.update(grewOld.id, { ageRangeMax: 25 });
+
+      const spec = feedFilterSpec(viewer)!;
+      const ids = [second.id, switched.id, grewOld.id, first.id];
+      const { text, values } = buildFeedQuery(spec, { ids, limit: ids.length });
+      const rows: Array<{ id: string }> = await conn.query(text, values);
+      expect(rows.map((r) => r.id)).toEqual([second.id, first.id]);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { User } from "./entities/User";
+import { getAge } from "./utils";
+
+// What a viewer's feed is filtered by, pulled out of their profile so the SQL
+// below only ever sees plain values.
+export type FeedFilterSpec =
+  | {
+      goal: "friendship";
+      viewerId: string;
+      isDemo: boolean;
+      // adults and minors never see each other
+      adult: boolean;
+    }
+  | {
+      goal: "love";
+      viewerId: string;
+      isDemo: boolean;
+      age: number;
+      gender: string | null;
+      // a gender or "everyone"
+      genderToShow: string | null;
+      ageRangeMin: number | null;
+      ageRangeMax: number | null;
+      location: string | null;
+      // null when the viewer's location couldn't be placed, the free text is
+      // matched instead then
+      latitude: number | null;
+      longitude: number | null;
+      maxDistanceKm: number;
+      // global people also see other global people from anywhere
+      global: boolean;
+    };
+
+export interface FeedQuery {
+  text: string;
+  values: unknown[];
+}
+
+export const FEED_PAGE_SIZE = 20;
+// someone at the edge of the viewer's radius ranks this much lower than
+// someone next door
+const DISTANCE_RANK_WEIGHT = 0.5;
+
+// null when the viewer can't have a feed yet
+export const feedFilterSpec = (viewer: User): FeedFilterSpec | null => {
+  if (!viewer.birthday) {
+    return null;
+  }
+
+  const age = getAge(new Date(viewer.birthday));
+  if (viewer.goal !== "love") {
+    return {
+      goal: "friendship",
+      viewerId: viewer.id,
+      isDemo: viewer.isDemo,
+      adult: age >= 18,
+    };
+  }
+
+  return {
+    goal: "love",
+    viewerId: viewer.id,
+    isDemo: viewer.isDemo,
+    age,
+    gender: viewer.gender,
+    genderToShow: viewer.genderToShow,
+    ageRangeMin: viewer.ageRangeMin,
+    ageRangeMax: viewer.ageRangeMax,
+    location: viewer.location,
+    latitude: viewer.latitude,
+    longitude: viewer.longitude,
+    maxDistanceKm: viewer.maxDistanceKm,
+    global: viewer.global,
+  };
+};
+
+// every value goes through here so nothing has to count $n by hand
+const createParams = () => {
+  const values: unknown[] = [];
+  const param = (v: unknown) => {
+    values.push(v);
+    return `$${values.length}`;
+  };
+  return { values, param };
+};
+
+// with ids it only looks at those and keeps them in that order, that's how a
+// queued page gets checked again before it's served
+export const buildFeedQuery = (
+  spec: FeedFilterSpec,
+  { limit = FEED_PAGE_SIZE, ids }: { limit?: number; ids?: string[] } = {}
+): FeedQuery => {
+  const { values, param } = createParams();
+  const viewerId = param(spec.viewerId);
+  const onlyIds = ids ? param(ids) : null;
+
+  const where: string[] = [];
+  // extra ranking tiers in front of the "liked me" one, best first
+  const boosts: string[] = [];
+  // added to whichever tier someone lands in
+  let rankOffset = "";
+  let distanceJoin = "";
+  if (spec.goal === "love") {
+    where.push(`goal = 'love'`);
+    // they want to see me
+    where.push(`"genderToShow" = ${param(spec.gender)}`);
+    const age = param(spec.age);
+    where.push(`"ageRangeMin" <= ${age}`);
+    where.push(`"ageRangeMax" >= ${age}`);
+    // I want to see them
+    if (spec.genderToShow !== "everyone") {
+      where.push(`gender = ${param(spec.genderToShow)}`);
+    }
+    where.push(
+      `date_part('year', age(birthday)) between ${param(
+        spec.ageRangeMin
+      )} and ${param(spec.ageRangeMax)}`
+    );
+
+    const location = param(spec.location);
+    let nearby = `u.location = ${location}`;
+    if (spec.latitude != null && spec.longitude != null) {
+      const lat = param(spec.latitude);
+      const lng = param(spec.longitude);
+      const maxDistance = param(spec.maxDistanceKm);
+      distanceJoin = `left join lateral (
+      select 6371 * acos(least(1, greatest(-1,
+        cos(radians(${lat})) * cos(radians(u.latitude)) * cos(radians(u.longitude) - radians(${lng}))
+        + sin(radians(${lat})) * sin(radians(u.latitude))
+      ))) "distanceKm"
+    ) d on true`;
+      // within both radiuses, people that couldn't be placed still match on
+      // the text
+      nearby = `((d."distanceKm" <= ${maxDistance} and d."distanceKm" <= u."maxDistanceKm") or (u.latitude is null and u.location = ${location}))`;
+      rankOffset = ` + ${DISTANCE_RANK_WEIGHT} * coalesce(least(d."distanceKm" / greatest(${maxDistance}, 1), 1), 1)`;
+    }
+
+    if (spec.global) {
+      where.push(`(${nearby} or global = true)`);
+      boosts.push(
+        `when (${nearby} and v2 is not null) then random() - 1.2`,
+        `when ${nearby} then random() - 1`
+      );
+    } else {
+      where.push(nearby);
+    }
+  } else {
+    where.push(
+      `date_part('year', age(birthday)) ${spec.adult ? ">=" : "<"} 18`
+    );
+  }
+
+  const text = `
+    select id, flair, "displayName", date_part('year', age(birthday)) "age", bio, "codeImgIds", "photoUrl",
+    -- lower ranks come first. it's random with a head start for people who
+    -- liked the viewer, and for global people also for the ones nearby. in
+    -- love feeds closer people rank higher
+    case
+      ${boosts.join("\n      ")}
+      when (v2 is not null) then random() - .2
+      else random()
+    end${rankOffset} "rank"
+    from "user" u
+    left join view v on v."viewerId" = ${viewerId} and u.id = v."targetId"
+    left join view v2 on v2."targetId" = ${viewerId} and v2.liked = true and u.id = v2."viewerId"
+    ${distanceJoin}
+    where
+    v is null
+    and u.id != ${viewerId}
+    ${where.map((x) => `and ${x}`).join("\n    ")}
+    and array_length("codeImgIds", 1) >= 1
+    and "shadowBanned" != true
+    and banned != true
+    and "isDemo" = ${param(spec.isDemo)}
+    and not exists (
+      select 1 from block b
+      where (b."blockerId" = ${viewerId} and b."blockedId" = u.id)
+      or (b."blockerId" = u.id and b."blockedId" = ${viewerId})
+    )
+    ${onlyIds ? `and u.id::text = any(${onlyIds}::text[])` : ""}
+    order by ${
+      onlyIds ? `array_position(${onlyIds}::text[], u.id::text)` : `"rank"`
+    }
+    limit ${param(limit)}
+  `;
+
+  return { text, values };
+};
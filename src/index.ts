@@ -1,30 +1,66 @@
 require("dotenv-safe").config();
 import cors from "cors";
-import express from "express";
+import express, { RequestHandler } from "express";
 import Router from "express-promise-router";
 import helmet from "helmet";
 import createError from "http-errors";
 import passport from "passport";
-import { Strategy as GitHubStrategy } from "passport-github";
 import { join } from "path";
 import "reflect-metadata";
-import fetch from "node-fetch";
-import { assert } from "superstruct";
+import { assert, is } from "superstruct";
 import { createConnection, getConnection } from "typeorm";
+import {
+  createAppleKeyStore,
+  verifyAppleIdentityToken,
+} from "./auth/appleIdentity";
+import { assertMatched } from "./auth/assertMatched";
 import { createTokens } from "./auth/createTokens";
 import { isAuth } from "./auth/isAuth";
+import {
+  OAuthProvider,
+  parseOAuthState,
+  confirmOAuthLink,
+  registerOAuthProviders,
+  startOAuthLink,
+} from "./auth/oauthProviders";
+import {
+  getSessionInfo,
+  isSessionActive,
+  listSessions,
+  revokeSessions,
+  useSessionStore,
+} from "./auth/sessions";
+import { verifyTokens } from "./auth/verifyTokens";
+import { messagePreview } from "./codeLanguages";
 import { __prod__ } from "./constants";
 import { Match } from "./entities/Match";
 import { Message } from "./entities/Message";
 import { User } from "./entities/User";
 import { View } from "./entities/View";
-import { getAge, getUserIdOrder } from "./utils";
+import { getUserIdOrder } from "./utils";
 import {
+  AppleLoginStruct,
+  ConfirmLinkStruct,
+  EditMessageStruct,
   GetMessageStruct,
+  LinkAppleStruct,
+  LinkOAuthStruct,
+  MatchesCursorStruct,
   MessageStruct,
+  NotificationSettingsStruct,
+  CompatibilitySettingsStruct,
+  CitySearchStruct,
+  OneMessageStruct,
+  OneSessionStruct,
   OneUserStruct,
+  ReactionStruct,
+  ReadUpToEventStruct,
   ReportStruct,
+  SearchMessagesStruct,
+  TypingEventStruct,
   UnmatchStruct,
+  BlockStruct,
+  UnlinkStruct,
   UpdatePushTokenStruct,
   UpdateUser,
   UserCodeImgs,
@@ -33,9 +69,20 @@ import {
 import http from "http";
 import WebSocket, { Server } from "ws";
 import url from "url";
-import { verify } from "jsonwebtoken";
 import { getUser } from "./queries/getUser";
+import { undoLastView } from "./queries/undoLastView";
+import { getActiveMatch } from "./queries/getActiveMatch";
+import { markMessagesRead } from "./queries/markMessagesRead";
+import { refreshLastMessage } from "./queries/refreshLastMessage";
+import { searchMessages } from "./queries/searchMessages";
+import {
+  getReactionAggregates,
+  formatMessages,
+} from "./queries/formatMessages";
+import { MessageReaction } from "./entities/MessageReaction";
 import { Report } from "./entities/Report";
+import { Block } from "./entities/Block";
+import { isBlocked } from "./queries/isBlocked";
 import { createMessageAdapter } from "@slack/interactive-messages";
 import {
   queuePushNotifToSend,
@@ -47,8 +94,32 @@ import {
   IRateLimiterStoreOptions,
 } from "rate-limiter-flexible";
 import { rateLimitMiddleware } from "./rateLimitMiddleware";
+import { createAdminRouter } from "./adminRouter";
+import { handleSlackAction, sendReportToSlack } from "./slack";
+import { evaluateReport } from "./autoModeration";
+import { deleteAccount, exportAccount } from "./account";
+import {
+  findOrCreateUserForIdentity,
+  linkProvider,
+  listIdentities,
+  unlinkProvider,
+} from "./accountLinking";
+import { loginDemoAccount, seedDemoAccounts } from "./demoAccounts";
+import {
+  feedFiltersChanged,
+  invalidateFeedQueue,
+  nextFeedPage,
+  removeFromFeedQueue,
+  startFeedQueueRunner,
+} from "./feedQueue";
+import { startCompatibilityRunner } from "./compatibility";
+import { resolveLocation, searchCities } from "./locations";
+import { CompatibilityProfile } from "./entities/CompatibilityProfile";
+import { createWsHub } from "./wsHub";
 
 const SECONDS_IN_A_DAY = 86400;
+const MATCHES_PAGE_SIZE = 50;
+const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
 
 const main = async () => {
   const conn = await createConnection({
@@ -63,6 +134,7 @@ const main = async () => {
   console.log("connected, running migrations now");
   await conn.runMigrations();
   console.log("migrations ran");
+  await seedDemoAccounts();
 
   const redisClient = new Redis(process.env.REDIS_URL, {
     enableOfflineQueue: false,
@@ -75,53 +147,33 @@ const main = async () => {
   };
 
   startPushNotificationRunner();
+  startFeedQueueRunner();
+  startCompatibilityRunner();
 
-  const wsUsers: Record<
-    string,
-    { ws: WebSocket; openChatUserId: string | null }
-  > = {};
-  const wsSend = (key: string, v: any) => {
-    if (key in wsUsers) {
-      wsUsers[key].ws.send(JSON.stringify(v));
+  const wsHub = createWsHub({
+    redisClient,
+    // subscriber connections can't run regular commands
+    subClient: new Redis(process.env.REDIS_URL),
+  });
+  const { wsSend } = wsHub;
+  useSessionStore(redisClient, wsHub.closeSessions);
+
+  const readMessages = async (
+    readerId: string,
+    otherId: string,
+    upToMessageId?: string
+  ) => {
+    const userIdOrder = getUserIdOrder(otherId, readerId);
+    await Match.update(userIdOrder, {
+      [userIdOrder.userId1 === readerId ? "read1" : "read2"]: true,
+    });
+    const upTo = await markMessagesRead(readerId, otherId, upToMessageId);
+    if (upTo) {
+      wsSend(otherId, { type: "message-read", userId: readerId, upTo });
     }
   };
 
-  passport.use(
-    new GitHubStrategy(
-      {
-        clientID: process.env.GITHUB_CLIENT_ID,
-        clientSecret: process.env.GITHUB_CLIENT_SECRET,
-        callbackURL: `${process.env.SERVER_URL}/auth/github/callback`,
-      },
-      async (githubAccessToken, _, profile, cb) => {
-        try {
-          let user = await User.findOne({ githubId: profile.id });
-          const data: Partial<User> = {
-            githubAccessToken,
-            githubId: profile.id,
-            photoUrl:
-              profile.photos?.[0].value ||
-              (profile._json as any).avatar_url ||
-              "",
-            other: profile._json,
-            profileUrl: profile.profileUrl,
-            username: profile.username,
-          };
-          if (user) {
-            await User.update(user.id, data);
-          } else {
-            data.bio = (profile._json as any)?.bio || "";
-            data.displayName = profile.displayName;
-            user = await User.create(data).save();
-          }
-          cb(undefined, createTokens(user));
-        } catch (err) {
-          console.log(err);
-          cb(new Error("internal error"));
-        }
-      }
-    )
-  );
+  const oauthProviders = registerOAuthProviders({ redisClient });
   passport.serializeUser((user: any, done) => {
     done(null, user.accessToken);
   });
@@ -153,109 +205,304 @@ const main = async () => {
   if (!__prod__) {
     app.get("/all-users", async (_, res) => res.send(await User.find()));
     app.post("/login", async (req, res) =>
-      res.send(createTokens((await User.findOne(req.body.userId))!))
+      res.send(
+        await createTokens(
+          (await User.findOne(req.body.userId))!,
+          getSessionInfo(req)
+        )
+      )
     );
   }
 
-  slackInteractions.action({ type: "button" }, async (payload, respond) => {
-    if (!payload.actions || !payload.actions.length) {
-      respond({ text: "no actions?" });
-      return;
-    }
+  slackInteractions.action({ type: "button" }, handleSlackAction);
 
-    const [{ action_id, value }] = payload.actions;
-    if (action_id === "shadow-ban") {
-      try {
-        await User.update(value, { shadowBanned: true });
-        respond({ text: "banned" });
-      } catch (err) {
-        respond({ text: "Something went wrong: " + err.message });
-      }
-    }
+  const emailLoginLimiter = new RateLimiterRedis({
+    ...defaultRateLimitOpts,
+    points: 20,
+    duration: 60 * 60,
+    keyPrefix: "rl/email/login/",
   });
-
   router.post("/email/login", async (req, res, next) => {
+    try {
+      await emailLoginLimiter.consume(req.ip);
+    } catch {
+      res.status(429).send("Too many requests, slow down");
+      return;
+    }
+
     const { email, password } = req.body;
-    if (
-      email !== process.env.APPLE_EMAIL &&
-      password !== process.env.APPLE_PASSWORD
-    ) {
+    const user =
+      typeof email === "string" && typeof password === "string"
+        ? await loginDemoAccount(email, password)
+        : null;
+    if (!user) {
       next(
         createError(
           400,
-          "this is for the apple tester only, you should login with github"
+          "this is for app review only, you should login with github"
         )
       );
       return;
     }
 
-    let user = await User.findOne({ appleId: process.env.APPLE_EMAIL });
-    if (!user) {
-      user = await User.create({
-        appleId: process.env.APPLE_EMAIL,
-        photoUrl: "https://via.placeholder.com/150x150",
-        shadowBanned: true,
-      }).save();
-    }
-
-    res.send(createTokens(user));
+    res.send(await createTokens(user, getSessionInfo(req)));
   });
 
+  const appleKeys = createAppleKeyStore();
+  const verifyAppleLogin = async (identityToken: string, nonce: string) => {
+    const identity = await verifyAppleIdentityToken(identityToken, {
+      nonce,
+      getKey: appleKeys.getKey,
+    });
+    // a nonce only works once, for as long as the token it came with is valid
+    const nonceIsNew = await redisClient.set(
+      `apple-nonce/${nonce}`,
+      "1",
+      "EX",
+      Math.max(identity.exp - Math.floor(Date.now() / 1000), 1),
+      "NX"
+    );
+    if (!nonceIsNew) {
+      throw createError(401, "apple identity token was already used");
+    }
+    return identity;
+  };
+
   router.post("/apple/login", async (req, res, next) => {
-    const { user: appleId } = req.body;
-    if (typeof appleId !== "string") {
-      next(createError(400, "something went wrong with apple auth"));
+    try {
+      assert(req.body, AppleLoginStruct);
+    } catch (err) {
+      next(createError(400, err.message));
       return;
     }
 
-    let user = await User.findOne({ appleId });
-    if (!user) {
-      user = await User.create({
+    const identity = await verifyAppleLogin(
+      req.body.identityToken,
+      req.body.nonce
+    );
+    const { user } = await findOrCreateUserForIdentity(
+      "apple",
+      identity.sub,
+      {},
+      () => ({
         displayName: req.body?.fullName?.givenName || "",
-        goal: "friendship",
-        birthday: new Date(),
-        codeImgIds: ["v56pytkbl-1606765556556.png"],
-        appleId,
         photoUrl: "https://via.placeholder.com/150x150",
         shadowBanned: true,
-      }).save();
-    } else if (!user.goal) {
-      user.displayName = req.body?.fullName?.givenName || "";
-      user.goal = "friendship";
-      user.birthday = new Date();
-      user.codeImgIds = ["v56pytkbl-1606765556556.png"];
-      await user.save();
-    }
+      })
+    );
 
-    res.send(createTokens(user));
+    res.send(await createTokens(user, getSessionInfo(req)));
   });
 
-  router.get("/auth/github/rn", (req, res, next) => {
-    const state = Buffer.from(JSON.stringify({ rn: true })).toString("base64");
-    passport.authenticate("github", {
-      session: false,
-      state,
-    })(req, res, next);
+  router.get("/me/identities", isAuth(), async (req: any, res) => {
+    res.json({ identities: await listIdentities(req.userId) });
   });
 
-  router.get("/auth/github", (req, res, next) => {
-    const state = Buffer.from(JSON.stringify({ rn: false })).toString("base64");
-    passport.authenticate("github", {
+  router.post(
+    "/link/apple",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 20,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/link/apple/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.body, LinkAppleStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const identity = await verifyAppleLogin(
+        req.body.identityToken,
+        req.body.nonce
+      );
+      const mergedUserId = await linkProvider(
+        req.userId,
+        "apple",
+        identity.sub,
+        {},
+        { merge: req.body.merge }
+      );
+
+      res.json({ ok: true, merged: !!mergedUserId });
+
+      if (mergedUserId) {
+        wsHub.closeSessions(mergedUserId);
+      }
+    }
+  );
+
+  router.post(
+    "/link/:provider",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 20,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/link/oauth/",
+      })
+    ),
+    async (req: any, res, next) => {
+      const { provider } = req.params;
+      if (!oauthProviders.includes(provider)) {
+        next(createError(404, `can't link ${provider}`));
+        return;
+      }
+      try {
+        assert(req.body, LinkOAuthStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const nonce = await startOAuthLink(
+        redisClient,
+        req.userId,
+        provider,
+        !!req.body.merge
+      );
+
+      res.json({
+        url: `${
+          process.env.SERVER_URL
+        }/auth/${provider}/link?nonce=${nonce}&rn=${!!req.body.rn}`,
+      });
+    }
+  );
+
+  // the app gets the code once the provider login in the browser is done
+  router.post(
+    "/link/:provider/confirm",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 20,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/link/confirm/",
+      })
+    ),
+    async (req: any, res, next) => {
+      const { provider } = req.params;
+      if (!oauthProviders.includes(provider)) {
+        next(createError(404, `can't link ${provider}`));
+        return;
+      }
+      try {
+        assert(req.body, ConfirmLinkStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const mergedUserId = await confirmOAuthLink(
+        redisClient,
+        req.userId,
+        provider,
+        req.body.code
+      );
+
+      res.json({ ok: true, merged: !!mergedUserId });
+
+      // the merged account's sockets belong to a user that's gone now
+      if (mergedUserId) {
+        wsHub.closeSessions(mergedUserId);
+      }
+    }
+  );
+
+  router.delete(
+    "/link/:provider",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 20,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/link/delete/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.params, UnlinkStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      await unlinkProvider(req.userId, req.params.provider);
+
+      res.json({ ok: true });
+    }
+  );
+
+  // the state comes back to the callback so it knows where to send the tokens
+  const authenticate = (state: {
+    rn: boolean;
+    link?: string;
+  }): RequestHandler => (req, res, next) => {
+    const { provider } = req.params;
+    if (!oauthProviders.includes(provider as OAuthProvider)) {
+      next(createError(404, `can't login with ${provider}`));
+      return;
+    }
+    passport.authenticate(provider, {
       session: false,
-      state,
+      state: Buffer.from(JSON.stringify(state)).toString("base64"),
     })(req, res, next);
+  };
+
+  router.get("/auth/:provider/rn", authenticate({ rn: true }));
+
+  router.get("/auth/:provider", authenticate({ rn: false }));
+
+  // where POST /link/:provider sends people, the nonce says which account
+  // started the link
+  router.get("/auth/:provider/link", (req, res, next) => {
+    const { nonce, rn } = req.query;
+    if (typeof nonce !== "string") {
+      next(createError(400, "missing link nonce"));
+      return;
+    }
+    authenticate({ rn: rn === "true", link: nonce })(req, res, next);
   });
 
   router.get(
-    "/auth/github/callback",
-    passport.authenticate("github"),
+    "/auth/:provider/callback",
+    (req, res, next) => {
+      if (!oauthProviders.includes(req.params.provider as OAuthProvider)) {
+        next(createError(404, `can't login with ${req.params.provider}`));
+        return;
+      }
+      passport.authenticate(req.params.provider, { session: false })(
+        req,
+        res,
+        next
+      );
+    },
     (req: any, res) => {
+      const { rn } = parseOAuthState(req.query.state);
+      // the app finishes with POST /link/:provider/confirm
+      if (req.user.linkCode) {
+        res.redirect(
+          rn
+            ? `${__prod__ ? `vsinder://` : `exp://127.0.0.1:19000/`}linked/${
+                req.params.provider
+              }/${req.user.linkCode}`
+            : `http://localhost:54321/linked/${req.params.provider}/${req.user.linkCode}`
+        );
+        return;
+      }
       if (!req.user.accessToken || !req.user.refreshToken) {
         res.send(`something went wrong`);
         return;
       }
-      const { state } = req.query;
-      const { rn } = JSON.parse(Buffer.from(state, "base64").toString());
       if (rn) {
         res.redirect(
           `${__prod__ ? `vsinder://` : `exp://127.0.0.1:19000/`}tokens/${
@@ -320,6 +567,67 @@ const main = async () => {
     }
   );
 
+  router.put(
+    "/user/notification-settings",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 100,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/user/notification-settings/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.body, NotificationSettingsStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const { quietHoursStart, quietHoursEnd } = req.body;
+      if ((quietHoursStart === null) !== (quietHoursEnd === null)) {
+        next(createError(400, "quiet hours need both a start and an end time"));
+        return;
+      }
+
+      await User.update(req.userId, req.body);
+
+      res.json({ user: await getUser(req.userId) });
+    }
+  );
+
+  router.put(
+    "/user/compatibility",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 100,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/user/compatibility/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.body, CompatibilitySettingsStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      await User.update(req.userId, req.body);
+      if (!req.body.compatibilityScoring) {
+        // nothing derived from their code sticks around
+        await CompatibilityProfile.delete(req.userId);
+      }
+      await invalidateFeedQueue(req.userId);
+
+      res.json({ user: await getUser(req.userId) });
+    }
+  );
+
   router.put(
     "/user",
     isAuth(),
@@ -336,6 +644,9 @@ const main = async () => {
         req.body.ageRangeMin = 18;
         req.body.ageRangeMax = 33;
         req.body.location = "online";
+        req.body.cityId = null;
+        req.body.latitude = null;
+        req.body.longitude = null;
       }
       if (!req.body.location) {
         req.body.location = "online";
@@ -347,12 +658,31 @@ const main = async () => {
         return;
       }
 
-      await User.update(req.userId, req.body);
+      const before = await User.findOne(req.userId);
+      await User.update(req.userId, {
+        ...req.body,
+        ...resolveLocation(req.body),
+      });
+      const after = await User.findOne(req.userId);
+      if (before && after && feedFiltersChanged(before, after)) {
+        await invalidateFeedQueue(req.userId);
+      }
 
       res.json({ user: await getUser(req.userId) });
     }
   );
 
+  router.get("/cities", isAuth(), async (req, res, next) => {
+    try {
+      assert(req.query, CitySearchStruct);
+    } catch (err) {
+      next(createError(400, err.message));
+      return;
+    }
+
+    res.json({ cities: searchCities(req.query.q) });
+  });
+
   router.get(
     "/feed",
     isAuth(),
@@ -382,78 +712,7 @@ const main = async () => {
         return;
       }
 
-      const myAge = getAge(new Date(user.birthday));
-      const paramNum = user.global ? 6 : 4;
-      const loveWhere = `
-        and goal = 'love'
-        and "genderToShow" = $${paramNum}
-        and $${paramNum + 1} <= date_part('year', age(birthday))
-        and $${paramNum + 2} >= date_part('year', age(birthday))
-        and "ageRangeMin" <= $${paramNum + 3}
-        and "ageRangeMax" >= $${paramNum + 4}
-        and (location = $${paramNum + 5} ${
-        user.global ? `or global = true` : ""
-      })
-        ${
-          user.genderToShow !== "everyone"
-            ? `and gender = $${paramNum + 6}`
-            : ""
-        }
-    `;
-      const loveParams = [
-        req.userId,
-        req.userId,
-        req.userId,
-        ...(user.global ? [user.location, user.location] : []),
-        user.gender, // my gender matches their gender they want to see
-        user.ageRangeMin,
-        user.ageRangeMax,
-        myAge,
-        myAge,
-        user.location,
-      ];
-      if (user.genderToShow !== "everyone") {
-        loveParams.push(
-          user.genderToShow // their gender matches my gender I want to see
-        );
-      }
-      const friendWhere = `and date_part('year', age(birthday)) ${
-        myAge >= 18 ? ">=" : "<"
-      } 18`;
-      const friendParams = [req.userId, req.userId, req.userId];
-
-      const profiles = await getConnection().query(
-        `
-        select id, flair, "displayName", date_part('year', age(birthday)) "age", bio, "codeImgIds", "photoUrl"
-        from "user" u
-        left join view v on v."viewerId" = $1 and u.id = v."targetId"
-        left join view v2 on $2 = v2."targetId" and v2.liked = true and u.id = v2."viewerId"
-        where
-        v is null
-        and u.id != $3
-        ${user.goal === "love" ? loveWhere : friendWhere}
-        and array_length("codeImgIds", 1) >= 1
-        and "shadowBanned" != true
-        order by
-          case
-                ${
-                  user.goal === "love" && user.global
-                    ? `
-                when (u.location = $4 and v2 is not null)
-                then random() - 1.2
-                when (u.location = $5)
-                then random() - 1
-                `
-                    : ""
-                }
-                when (v2 is not null)
-                then random() - .2
-                else random()
-              end
-            limit 20;
-        `,
-        user.goal === "love" ? loveParams : friendParams
-      );
+      const profiles = await nextFeedPage(user);
 
       res.json({
         profiles,
@@ -462,7 +721,7 @@ const main = async () => {
   );
 
   router.get(
-    "/matches/:cursor",
+    "/matches/:cursor?",
     isAuth(),
     rateLimitMiddleware(
       new RateLimiterRedis({
@@ -474,9 +733,12 @@ const main = async () => {
       "You've been using the app too much and hit the rate limit, come back tomorrow"
     ),
     async (req: any, res) => {
-      res.send({
-        matches: await getConnection().query(
-          `
+      // older clients send 0 or garbage for the first page
+      const cursor = is(req.params.cursor, MatchesCursorStruct)
+        ? req.params.cursor.split("_")
+        : null;
+      const matches = await getConnection().query(
+        `
         select
         case
           when u.id = ma."userId1" then ma.read2
@@ -484,43 +746,96 @@ const main = async () => {
         end "read",
         ma.id "matchId",
         u.id "userId", u.flair, u."photoUrl", u."displayName", date_part('epoch', ma."createdAt") * 1000 "createdAt",
-        (select json_build_object('text', text, 'createdAt', date_part('epoch', m."createdAt")*1000)
-        from message m
-        where (m."recipientId" = ma."userId1" and m."senderId" = ma."userId2")
-        or
-        (m."senderId" = ma."userId1" and m."recipientId" = ma."userId2")
-        order by m."createdAt" desc limit 1) message
+        case
+          when ma."lastMessageAt" is null then null
+          else json_build_object('text', ma."lastMessageText", 'createdAt', date_part('epoch', ma."lastMessageAt")*1000)
+        end message,
+        (date_part('epoch', date_trunc('second', ma."lastActivityAt"))::bigint * 1000000
+          + date_part('microseconds', ma."lastActivityAt")::bigint % 1000000) || '_' || ma.id "cursor"
         from match ma
-        inner join "user" u on u.id != $1 and (u.id = ma."userId1" or u.id = ma."userId2")
+        inner join "user" u on u.id = case when ma."userId1" = $1 then ma."userId2" else ma."userId1" end
         where (ma."userId1" = $2 or ma."userId2" = $3) and ma.unmatched = false
-        limit 150
+        and not exists (
+          select 1 from block b
+          where (b."blockerId" = $1 and b."blockedId" = u.id)
+          or (b."blockerId" = u.id and b."blockedId" = $1)
+        )
+        ${
+          cursor
+            ? `and (ma."lastActivityAt", ma.id) < (timestamp with time zone 'epoch' + $4::bigint * interval '1 microsecond', $5)`
+            : ""
+        }
+        order by ma."lastActivityAt" desc, ma.id desc
+        limit ${MATCHES_PAGE_SIZE + 1}
       `,
-          [req.userId, req.userId, req.userId]
-        ),
+        [req.userId, req.userId, req.userId, ...(cursor || [])]
+      );
+      const page = matches.slice(0, MATCHES_PAGE_SIZE);
+      const hasMore = matches.length === MATCHES_PAGE_SIZE + 1;
+
+      res.send({
+        matches: page.map(({ cursor: _, ...m }: any) => m),
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1].cursor : null,
       });
     }
   );
 
+  // has to be registered before /messages/:userId
   router.get(
-    "/messages/:userId/:cursor?",
+    "/messages/search",
     isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 300,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/messages/search/",
+      })
+    ),
     async (req: any, res, next) => {
+      const query = {
+        q: req.query.q,
+        cursor: req.query.cursor ? parseInt(req.query.cursor) : undefined,
+      };
       try {
-        req.params.cursor = req.params.cursor
-          ? parseInt(req.params.cursor)
-          : undefined;
-        assert(req.params, GetMessageStruct);
+        assert(query, SearchMessagesStruct);
       } catch (err) {
         next(createError(400, err.message));
         return;
       }
-      const { userId, cursor } = req.params;
-      const qb = getConnection()
-        .createQueryBuilder()
-        .select("m")
-        .from(Message, "m")
-        .where(
-          `((m."recipientId" = :u1 and m."senderId" = :u2) or (m."recipientId" = :u3 and m."senderId" = :u4))`,
+
+      if (!query.q.trim()) {
+        res.send({ results: [], hasMore: false, nextCursor: null });
+        return;
+      }
+
+      res.send(await searchMessages(req.userId, query.q, query.cursor));
+    }
+  );
+
+  router.get(
+    "/messages/:userId/:cursor?",
+    isAuth(),
+    async (req: any, res, next) => {
+      try {
+        req.params.cursor = req.params.cursor
+          ? parseInt(req.params.cursor)
+          : undefined;
+        assert(req.params, GetMessageStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+      const { userId, cursor } = req.params;
+      await assertMatched(req.userId, userId);
+
+      const qb = getConnection()
+        .createQueryBuilder()
+        .select("m")
+        .from(Message, "m")
+        .where(
+          `((m."recipientId" = :u1 and m."senderId" = :u2) or (m."recipientId" = :u3 and m."senderId" = :u4))`,
           {
             u1: userId,
             u2: req.userId,
@@ -535,24 +850,14 @@ const main = async () => {
       }
       const messages = await qb.getMany();
       res.send({
-        messages: messages.slice(0, 20),
+        messages: await formatMessages(req.userId, messages.slice(0, 20)),
         hasMore: messages.length === 21,
       });
 
-      if (req.userId in wsUsers) {
-        wsUsers[req.userId].openChatUserId = userId;
-      }
+      wsHub.setOpenChatUserId(req.userId, userId).catch(console.error);
 
       if (!cursor) {
-        const userIdOrder = getUserIdOrder(userId, req.userId);
-        getConnection()
-          .createQueryBuilder()
-          .update(Match)
-          .set({
-            [userIdOrder.userId1 === req.userId ? "read1" : "read2"]: true,
-          })
-          .where(`"userId1" = :userId1 and "userId2" = :userId2`, userIdOrder)
-          .execute();
+        readMessages(req.userId, userId).catch(console.error);
       }
     }
   );
@@ -585,6 +890,90 @@ const main = async () => {
     }
   );
 
+  router.post(
+    "/block",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 100,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/block/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.body, BlockStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const { userId } = req.body;
+      if (userId === req.userId) {
+        next(createError(400, "you can't block yourself"));
+        return;
+      }
+      if (!(await User.count({ id: userId }))) {
+        next(createError(404, "user not found"));
+        return;
+      }
+
+      await getConnection()
+        .createQueryBuilder()
+        .insert()
+        .into(Block)
+        .values({ blockerId: req.userId, blockedId: userId })
+        .onConflict(`DO NOTHING`)
+        .execute();
+      await Match.delete(getUserIdOrder(req.userId, userId));
+      wsSend(userId, { type: "unmatch", userId: req.userId });
+
+      res.send({ ok: true });
+    }
+  );
+
+  router.post(
+    "/unblock",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 100,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/unblock/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.body, BlockStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      await Block.delete({ blockerId: req.userId, blockedId: req.body.userId });
+
+      res.send({ ok: true });
+    }
+  );
+
+  router.get("/blocks", isAuth(), async (req: any, res) => {
+    res.send({
+      blocks: await getConnection().query(
+        `
+        select u.id "userId", u."displayName", u."photoUrl", u.flair,
+        date_part('epoch', b."createdAt") * 1000 "createdAt"
+        from block b
+        inner join "user" u on u.id = b."blockedId"
+        where b."blockerId" = $1
+        order by b."createdAt" desc
+      `,
+        [req.userId]
+      ),
+    });
+  });
+
   router.post(
     "/report",
     isAuth(),
@@ -621,81 +1010,15 @@ const main = async () => {
 
       res.send({ ok: true });
 
-      // sketchy not catching errors ;;
-      Report.insert({ reporterId: req.userId, targetId: userId, message });
-      User.findOne(userId).then((u) => {
-        fetch(process.env.SLACK_REPORT_URL, {
-          method: "post",
-          headers: {
-            "Content-type": "application/json",
-          },
-          body: JSON.stringify({
-            blocks: [
-              {
-                type: "section",
-                fields: [
-                  {
-                    type: "mrkdwn",
-                    text: "*Reporter id:*\n" + req.userId,
-                  },
-                  {
-                    type: "mrkdwn",
-                    text: "*Target id:*\n" + userId,
-                  },
-                  {
-                    type: "mrkdwn",
-                    text: "*type:*\n" + unmatchOrReject,
-                  },
-                  {
-                    type: "mrkdwn",
-                    text: "*message:*\n" + message,
-                  },
-                ],
-              },
-              ...(u?.codeImgIds.map((id) => ({
-                type: "image",
-                title: {
-                  type: "plain_text",
-                  text: id,
-                  emoji: true,
-                },
-                image_url: `https://img.vsinder.com/${id}`,
-                alt_text: "code",
-              })) || []),
-              ...(u?.photoUrl
-                ? [
-                    {
-                      type: "image",
-                      title: {
-                        type: "plain_text",
-                        text: u.displayName + " | " + u.photoUrl,
-                        emoji: true,
-                      },
-                      image_url: u.photoUrl,
-                      alt_text: "code",
-                    },
-                  ]
-                : []),
-              {
-                type: "actions",
-                elements: [
-                  {
-                    type: "button",
-                    action_id: "shadow-ban",
-                    text: {
-                      type: "plain_text",
-                      emoji: true,
-                      text: "shadow ban",
-                    },
-                    style: "primary",
-                    value: userId,
-                  },
-                ],
-              },
-            ],
-          }),
-        });
-      });
+      Report.create({ reporterId: req.userId, targetId: userId, message })
+        .save()
+        .then((report) =>
+          Promise.all([
+            sendReportToSlack(report, unmatchOrReject),
+            evaluateReport(report),
+          ])
+        )
+        .catch(console.error);
     }
   );
 
@@ -718,19 +1041,41 @@ const main = async () => {
         return;
       }
 
+      const match = await assertMatched(req.userId, req.body.recipientId);
+      if (req.body.matchId && req.body.matchId !== match.id) {
+        next(createError(403, "that match isn't yours"));
+        return;
+      }
+
       const m = await Message.create({
         ...req.body,
+        text: req.body.text || "",
+        matchId: match.id,
         senderId: req.userId,
       } as Message).save();
 
-      wsSend(m.recipientId, { type: "new-message", message: m });
+      const createdAt = new Date(m.createdAt);
+      await Match.update(match.id, {
+        lastMessageText: messagePreview(m.text, m.language),
+        lastMessageAt: createdAt,
+        lastActivityAt: createdAt,
+      });
 
-      res.send({ message: m });
+      const [message] = await formatMessages(req.userId, [m]);
+      wsSend(m.recipientId, { type: "new-message", message });
 
-      if (
-        !(m.recipientId in wsUsers) ||
-        wsUsers[m.recipientId].openChatUserId !== req.userId
-      ) {
+      res.send({ message });
+
+      const [online, openChatUserId] = await Promise.all([
+        wsHub.isOnline(m.recipientId),
+        wsHub.getOpenChatUserId(m.recipientId),
+      ]);
+
+      if (online) {
+        Message.update(m.id, { deliveredAt: new Date() }).catch(console.error);
+      }
+
+      if (!online || openChatUserId !== req.userId) {
         const userIdOrder = getUserIdOrder(req.userId, m.recipientId);
         Match.update(
           { ...userIdOrder, unmatched: false },
@@ -738,14 +1083,218 @@ const main = async () => {
         );
       }
 
-      if (!(m.recipientId in wsUsers)) {
+      if (!online) {
         queuePushNotifToSend({
           idToSendTo: m.recipientId,
           otherId: req.userId,
           type: "message",
           text: m.text.slice(0, 100),
+          language: m.type === "code" ? m.language : null,
+        });
+      }
+    }
+  );
+
+  // a message the caller sent or received, 404 otherwise so ids can't be probed
+  const findOwnMessage = async (userId: string, messageId: string) => {
+    const m = await Message.findOne(messageId);
+    if (!m || (m.senderId !== userId && m.recipientId !== userId)) {
+      throw createError(404, "message not found");
+    }
+
+    return m;
+  };
+
+  router.put(
+    "/message/:id",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 200,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/message/edit/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.params, OneMessageStruct);
+        assert(req.body, EditMessageStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const m = await findOwnMessage(req.userId, req.params.id);
+      if (m.senderId !== req.userId) {
+        next(createError(403, "you can only edit your own messages"));
+        return;
+      }
+      if (m.deletedAt) {
+        next(createError(400, "that message was deleted"));
+        return;
+      }
+      if (
+        Date.now() - new Date(m.createdAt).getTime() >
+        MESSAGE_EDIT_WINDOW_MS
+      ) {
+        next(createError(400, "it's too late to edit that message"));
+        return;
+      }
+      await assertMatched(req.userId, m.recipientId);
+
+      m.text = req.body.text;
+      m.editedAt = new Date();
+      await Message.update(m.id, { text: m.text, editedAt: m.editedAt });
+
+      const [message] = await formatMessages(req.userId, [m]);
+      res.send({ message });
+
+      wsSend(m.recipientId, { type: "message-updated", message });
+      refreshLastMessage(m.matchId).catch(console.error);
+    }
+  );
+
+  router.delete(
+    "/message/:id",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 200,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/message/delete/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.params, OneMessageStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const m = await findOwnMessage(req.userId, req.params.id);
+      if (m.senderId !== req.userId) {
+        next(createError(403, "you can only delete your own messages"));
+        return;
+      }
+
+      if (!m.deletedAt) {
+        await Message.update(m.id, {
+          text: "",
+          code: null,
+          language: null,
+          filename: null,
+          deletedAt: new Date(),
         });
       }
+
+      res.send({ ok: true });
+
+      wsSend(m.recipientId, {
+        type: "message-deleted",
+        messageId: m.id,
+        userId: req.userId,
+      });
+      refreshLastMessage(m.matchId).catch(console.error);
+    }
+  );
+
+  router.post(
+    "/message/:id/reaction",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 1000,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/message/reaction/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.params, OneMessageStruct);
+        assert(req.body, ReactionStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const m = await findOwnMessage(req.userId, req.params.id);
+      if (m.deletedAt) {
+        next(createError(400, "that message was deleted"));
+        return;
+      }
+      const otherId = m.senderId === req.userId ? m.recipientId : m.senderId;
+      await assertMatched(req.userId, otherId);
+
+      const { emoji } = req.body;
+      await getConnection()
+        .createQueryBuilder()
+        .insert()
+        .into(MessageReaction)
+        .values({ messageId: m.id, userId: req.userId, emoji })
+        .onConflict(`DO NOTHING`)
+        .execute();
+
+      res.send({
+        reactions:
+          (await getReactionAggregates(req.userId, [m.id]))[m.id] || [],
+      });
+
+      wsSend(otherId, {
+        type: "reaction",
+        messageId: m.id,
+        userId: req.userId,
+        emoji,
+        removed: false,
+      });
+    }
+  );
+
+  router.delete(
+    "/message/:id/reaction/:emoji",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 1000,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/message/reaction/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert({ id: req.params.id }, OneMessageStruct);
+        assert({ emoji: req.params.emoji }, ReactionStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const m = await findOwnMessage(req.userId, req.params.id);
+      const otherId = m.senderId === req.userId ? m.recipientId : m.senderId;
+      const { emoji } = req.params;
+
+      await MessageReaction.delete({
+        messageId: m.id,
+        userId: req.userId,
+        emoji,
+      });
+
+      res.send({
+        reactions:
+          (await getReactionAggregates(req.userId, [m.id]))[m.id] || [],
+      });
+
+      wsSend(otherId, {
+        type: "reaction",
+        messageId: m.id,
+        userId: req.userId,
+        emoji,
+        removed: true,
+      });
     }
   );
 
@@ -770,6 +1319,14 @@ const main = async () => {
         return;
       }
       const { userId, liked } = req.body;
+      if (await isBlocked(req.userId, userId)) {
+        res.json({
+          match: false,
+          ok: false,
+        });
+        return;
+      }
+
       let fav: View | undefined = undefined;
       try {
         const [_fav] = await Promise.all([
@@ -799,6 +1356,8 @@ const main = async () => {
         }
       }
 
+      await removeFromFeedQueue(req.userId, userId);
+
       let match = false;
       if (fav) {
         await Match.insert(getUserIdOrder(userId, req.userId));
@@ -820,8 +1379,8 @@ const main = async () => {
           type: "new-match",
           ...ids,
         });
-        // does not have a ws connection
-        if (!(userId in wsUsers)) {
+        // does not have a ws connection on any instance
+        if (!(await wsHub.isOnline(userId))) {
           queuePushNotifToSend({
             idToSendTo: userId,
             otherId: req.userId,
@@ -833,6 +1392,41 @@ const main = async () => {
       if (liked) {
         User.update(userId, { numLikes: () => '"numLikes" + 1' });
         wsSend(userId, { type: "new-like" });
+        if (!match && !(await wsHub.isOnline(userId))) {
+          queuePushNotifToSend({
+            idToSendTo: userId,
+            otherId: req.userId,
+            type: "like",
+          });
+        }
+      }
+    }
+  );
+
+  router.post(
+    "/view/undo",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 10,
+        duration: SECONDS_IN_A_DAY,
+        blockDuration: 0,
+        keyPrefix: "rl/view/undo/",
+      }),
+      `You've hit the rate limit of 10 undos a day, come back in 24 hours`
+    ),
+    async (req: any, res) => {
+      const { targetId, liked, unmatched } = await undoLastView(req.userId);
+      // the swipe took them out of the queue, a new one has them again
+      await invalidateFeedQueue(req.userId);
+
+      res.json({ ok: true, userId: targetId, liked, unmatched });
+
+      if (unmatched) {
+        wsSend(targetId, { type: "unmatch", userId: req.userId });
+        // the viewer's other devices still have the match
+        wsSend(req.userId, { type: "unmatch", userId: targetId });
       }
     }
   );
@@ -872,6 +1466,11 @@ const main = async () => {
         : `
     from "user" u, match m
     where  m."userId1" = $1 and m."userId2" = $2 and id = $3
+    and not exists (
+      select 1 from block b
+      where (b."blockerId" = $1 and b."blockedId" = $2)
+      or (b."blockerId" = $2 and b."blockedId" = $1)
+    )
     `
     }
     `,
@@ -897,6 +1496,122 @@ const main = async () => {
     });
   });
 
+  router.delete(
+    "/me",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 10,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/me/delete/",
+      })
+    ),
+    async (req: any, res) => {
+      const matchedUserIds = await deleteAccount(req.userId);
+
+      res.send({ ok: true });
+
+      matchedUserIds.forEach((userId) =>
+        wsSend(userId, { type: "unmatch", userId: req.userId })
+      );
+    }
+  );
+
+  router.get(
+    "/me/export",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 5,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/me/export/",
+      })
+    ),
+    async (req: any, res, next) => {
+      const data = await exportAccount(req.userId);
+      if (!data) {
+        next(createError(400, "your account got deleted"));
+        return;
+      }
+
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="vsinder-export-${req.userId}.json"`
+      );
+      res.json(data);
+    }
+  );
+
+  router.post(
+    "/logout-all",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 20,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/logout-all/",
+      })
+    ),
+    async (req: any, res) => {
+      // bumping tokenVersion also kills refresh tokens from before sessions
+      await User.update(req.userId, {
+        tokenVersion: () => '"tokenVersion" + 1',
+      });
+      await revokeSessions(req.userId);
+
+      res.send({ ok: true });
+    }
+  );
+
+  router.get("/sessions", isAuth(), async (req: any, res) => {
+    const sessions = await listSessions(req.userId);
+
+    res.json({
+      sessions: sessions.map((s) => ({
+        id: s.id,
+        device: s.device,
+        ip: s.ip,
+        lastSeenAt: s.lastSeenAt,
+        createdAt: s.createdAt,
+        current: s.id === req.sessionId,
+      })),
+    });
+  });
+
+  router.delete(
+    "/sessions/:id",
+    isAuth(),
+    rateLimitMiddleware(
+      new RateLimiterRedis({
+        ...defaultRateLimitOpts,
+        points: 100,
+        duration: SECONDS_IN_A_DAY,
+        keyPrefix: "rl/sessions/delete/",
+      })
+    ),
+    async (req: any, res, next) => {
+      try {
+        assert(req.params, OneSessionStruct);
+      } catch (err) {
+        next(createError(400, err.message));
+        return;
+      }
+
+      const revoked = await revokeSessions(req.userId, req.params.id);
+      if (!revoked.length) {
+        next(createError(404, "session not found"));
+        return;
+      }
+
+      res.send({ ok: true });
+    }
+  );
+
+  router.use("/admin", createAdminRouter());
+
   router.use((err: any, _: any, res: any, next: any) => {
     if (res.headersSent) {
       return next(err);
@@ -911,36 +1626,52 @@ const main = async () => {
 
   const server = http.createServer(app);
   const wss = new Server({ noServer: true });
-  wss.on("connection", (ws: WebSocket, userId: string) => {
-    if (!userId) {
-      ws.terminate();
-      return;
-    }
+  wss.on(
+    "connection",
+    (ws: WebSocket, userId: string, sessionId: string | undefined) => {
+      if (!userId) {
+        ws.terminate();
+        return;
+      }
 
-    // console.log("ws open: ", userId);
-    wsUsers[userId] = { openChatUserId: null, ws };
+      // console.log("ws open: ", userId);
+      wsHub.addSocket(userId, ws, sessionId).catch(console.error);
 
-    ws.on("message", (e: any) => {
-      const {
-        type,
-        userId: openChatUserId,
-      }: { type: "message-open"; userId: string } = JSON.parse(e);
-      if (type === "message-open") {
-        if (userId in wsUsers) {
-          wsUsers[userId].openChatUserId = openChatUserId;
+      ws.on("message", async (e: any) => {
+        let data: any;
+        try {
+          data = JSON.parse(e);
+        } catch {
+          return;
         }
-      }
-    });
 
-    ws.on("close", () => {
-      // console.log("ws close: ", userId);
-      delete wsUsers[userId];
-    });
-  });
+        try {
+          if (data.type === "message-open") {
+            await wsHub.setOpenChatUserId(userId, data.userId);
+          } else if (is(data, TypingEventStruct)) {
+            if (await getActiveMatch(userId, data.userId)) {
+              wsSend(data.userId, { type: "typing", userId });
+            }
+          } else if (is(data, ReadUpToEventStruct)) {
+            if (await getActiveMatch(userId, data.userId)) {
+              await readMessages(userId, data.userId, data.messageId);
+            }
+          }
+        } catch (err) {
+          console.error(err);
+        }
+      });
+
+      ws.on("close", () => {
+        // console.log("ws close: ", userId);
+        wsHub.removeSocket(userId, ws).catch(console.error);
+      });
+    }
+  );
   server.on("upgrade", async function upgrade(request, socket, head) {
-    const good = (userId: string) => {
+    const good = (userId: string, sessionId: string | undefined) => {
       wss.handleUpgrade(request, socket, head, function done(ws) {
-        wss.emit("connection", ws, userId);
+        wss.emit("connection", ws, userId, sessionId);
       });
     };
     const bad = () => {
@@ -959,26 +1690,16 @@ const main = async () => {
       ) {
         return bad();
       }
-      try {
-        const data = verify(
-          accessToken,
-          process.env.ACCESS_TOKEN_SECRET
-        ) as any;
-        return good(data.userId);
-      } catch {}
-
-      try {
-        const data = verify(
-          refreshToken,
-          process.env.REFRESH_TOKEN_SECRET
-        ) as any;
-        const user = await User.findOne(data.userId);
-        // token has been invalidated or user deleted
-        if (!user || user.tokenVersion !== data.tokenVersion) {
-          return bad();
-        }
-        return good(data.userId);
-      } catch {}
+      const verified = await verifyTokens(accessToken, refreshToken, {
+        rotate: false,
+        sessionInfo: getSessionInfo(request),
+      });
+      if (
+        verified &&
+        (await isSessionActive(verified.userId, verified.sessionId))
+      ) {
+        return good(verified.userId, verified.sessionId);
+      }
     } catch {}
 
     return bad();
@@ -0,0 +1,36 @@
+import { geocodeLocation } from "./locations";
+
+const placed = (text: string) => geocodeLocation(text)?.id || null;
+
+describe("geocodeLocation", () => {
+  it("places names and aliases", () => {
+    expect(placed("Berlin")).toBe("berlin-de");
+    expect(placed("São Paulo")).toBe("sao-paulo-br");
+    expect(placed("NYC")).toBe("new-york-us");
+    expect(placed("Washington, D.C.")).toBe("washington-us");
+    expect(placed("pdx")).toBe("portland-us");
+  });
+
+  it("places a name followed by what fits it", () => {
+    expect(placed("Austin, TX")).toBe("austin-us");
+    expect(placed("Austin, Texas, USA")).toBe("austin-us");
+    expect(placed("Berlin, Germany")).toBe("berlin-de");
+    expect(placed("São Paulo, SP")).toBe("sao-paulo-br");
+    expect(placed("New York, NY")).toBe("new-york-us");
+    expect(placed("Portland, OR")).toBe("portland-us");
+  });
+
+  it("doesn't place state codes or names from somewhere else", () => {
+    expect(placed("Buffalo, NY")).toBeNull();
+    expect(placed("Paris, TX")).toBeNull();
+    expect(placed("Portland, Maine")).toBeNull();
+    expect(placed("LA")).toBeNull();
+    expect(placed("berlin / remote")).toBeNull();
+  });
+
+  it("leaves ambiguous names unplaced", () => {
+    expect(placed("Portland")).toBeNull();
+    expect(placed("Vancouver")).toBeNull();
+    expect(placed("Vancouver, BC")).toBe("vancouver-ca");
+  });
+});
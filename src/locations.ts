@@ -0,0 +1,140 @@
+import createError from "http-errors";
+import { cities, City, countryNames, regionNames } from "./cities";
+
+// "São Paulo, SP" -> "sao paulo sp"
+export const normalizeLocation = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const cityById = new Map<string, City>();
+// names and aliases, several cities can share one
+const citiesByName = new Map<string, City[]>();
+cities.forEach((c) => {
+  cityById.set(c.id, c);
+  [c.name, ...(c.aliases || [])].forEach((x) => {
+    const key = normalizeLocation(x);
+    const named = citiesByName.get(key) || [];
+    // aliases can normalize to the name, like "sao paulo"
+    if (!named.includes(c)) {
+      citiesByName.set(key, [...named, c]);
+    }
+  });
+});
+
+export const findCity = (id: string) => cityById.get(id) || null;
+
+// "D.C." and "U.S.A." are written with dots as often as not
+const compact = (text: string) => normalizeLocation(text).replace(/ /g, "");
+
+// what can follow the name, like the "TX" in "Austin, TX"
+const qualifiers = (c: City) =>
+  new Set(
+    [
+      c.country,
+      ...(countryNames[c.country] || []),
+      ...(c.region ? [c.region, ...(regionNames[c.region] || [])] : []),
+    ].map(compact)
+  );
+
+// Best effort, and only when there's no doubt: the whole text has to be a
+// name we know, like "Berlin" or "Washington DC", or a name followed by what
+// fits it, like "Austin, TX" or "Berlin, Germany". "Paris, TX" isn't Paris,
+// and a name that's also somewhere else, like Portland, needs the qualifier.
+// Anything else stays unplaced and matches on the text.
+export const geocodeLocation = (text: string | null) => {
+  if (!text) {
+    return null;
+  }
+
+  const whole = normalizeLocation(text);
+  const named = (citiesByName.get(whole) || []).filter(
+    (c) => !(c.ambiguous && normalizeLocation(c.name) === whole)
+  );
+  if (named.length === 1) {
+    return named[0];
+  }
+
+  const [first, ...rest] = text
+    .split(",")
+    .map(normalizeLocation)
+    .filter((x) => x);
+  if (!first || !rest.length) {
+    return null;
+  }
+  const qualified = (citiesByName.get(first) || []).filter((c) => {
+    const fits = qualifiers(c);
+    return rest.every((q) => fits.has(compact(q)));
+  });
+  return qualified.length === 1 ? qualified[0] : null;
+};
+
+export const searchCities = (q: string, limit = 10) => {
+  const needle = normalizeLocation(q);
+  if (!needle) {
+    return [];
+  }
+  const found = new Set<City>();
+  citiesByName.forEach((cs, key) => {
+    if (key.startsWith(needle)) {
+      cs.forEach((c) => found.add(c));
+    }
+  });
+  return [...found].slice(0, limit);
+};
+
+// about a kilometer, no need to know where someone lives any closer than that
+const roundCoordinate = (x: number) => Math.round(x * 100) / 100;
+
+export interface LocationInput {
+  location: string;
+  cityId?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+// a picked city wins, then coordinates from the device, then whatever the
+// location text geocodes to. the text is kept for display and for matching
+// people who don't have coordinates yet
+export const resolveLocation = ({
+  location,
+  cityId,
+  latitude,
+  longitude,
+}: LocationInput) => {
+  if (cityId) {
+    const city = findCity(cityId);
+    if (!city) {
+      throw createError(400, "unknown city");
+    }
+    return {
+      location: city.name,
+      cityId: city.id,
+      latitude: city.lat,
+      longitude: city.lng,
+    };
+  }
+
+  if ((latitude == null) !== (longitude == null)) {
+    throw createError(400, "latitude and longitude go together");
+  }
+  if (latitude != null && longitude != null) {
+    return {
+      location,
+      cityId: null,
+      latitude: roundCoordinate(latitude),
+      longitude: roundCoordinate(longitude),
+    };
+  }
+
+  const city = geocodeLocation(location);
+  return {
+    location,
+    cityId: city ? city.id : null,
+    latitude: city ? city.lat : null,
+    longitude: city ? city.lng : null,
+  };
+};
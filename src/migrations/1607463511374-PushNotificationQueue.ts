@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class PushNotificationQueue1607463511374 implements MigrationInterface {
+  name = "PushNotificationQueue1607463511374";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "push_notification" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "userId" uuid NOT NULL, "otherId" uuid NOT NULL, "type" text NOT NULL, "text" text, "status" text NOT NULL DEFAULT 'queued', "attempts" integer NOT NULL DEFAULT 0, "nextAttemptAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "pushToken" text, "ticketId" text, "lastError" text, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_b7e0210528850d5f548629ed593" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_6f79883e5476b8fbb3da5521c4" ON "push_notification" ("status", "nextAttemptAt") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "push_notification" ADD CONSTRAINT "FK_1241f98a1240a25346033e70094" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "push_notification" ADD CONSTRAINT "FK_c3d9206593d52876d826256b661" FOREIGN KEY ("otherId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "push_notification" DROP CONSTRAINT "FK_c3d9206593d52876d826256b661"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "push_notification" DROP CONSTRAINT "FK_1241f98a1240a25346033e70094"`
+    );
+    await queryRunner.query(`DROP INDEX "IDX_6f79883e5476b8fbb3da5521c4"`);
+    await queryRunner.query(`DROP TABLE "push_notification"`);
+  }
+}
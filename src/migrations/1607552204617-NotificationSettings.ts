@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class NotificationSettings1607552204617 implements MigrationInterface {
+  name = "NotificationSettings1607552204617";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "notifyMatches" boolean NOT NULL DEFAULT true`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "notifyMessages" boolean NOT NULL DEFAULT true`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "notifyLikes" boolean NOT NULL DEFAULT true`
+    );
+    await queryRunner.query(`ALTER TABLE "user" ADD "quietHoursStart" text`);
+    await queryRunner.query(`ALTER TABLE "user" ADD "quietHoursEnd" text`);
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "timezone" text NOT NULL DEFAULT 'UTC'`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "timezone"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "quietHoursEnd"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "quietHoursStart"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "notifyLikes"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "notifyMessages"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "notifyMatches"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MatchLastActivity1607637391042 implements MigrationInterface {
+  name = "MatchLastActivity1607637391042";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "match" ADD "lastMessageText" text`);
+    await queryRunner.query(
+      `ALTER TABLE "match" ADD "lastMessageAt" TIMESTAMP WITH TIME ZONE`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "match" ADD "lastActivityAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()`
+    );
+    await queryRunner.query(
+      `UPDATE "match" SET "lastActivityAt" = "createdAt"`
+    );
+    await queryRunner.query(`
+      UPDATE "match" ma
+      SET "lastMessageText" = m.text, "lastMessageAt" = m."createdAt", "lastActivityAt" = m."createdAt"
+      FROM (
+        SELECT DISTINCT ON (least("senderId", "recipientId"), greatest("senderId", "recipientId"))
+        least("senderId", "recipientId") "userId1", greatest("senderId", "recipientId") "userId2", text, "createdAt"
+        FROM "message"
+        ORDER BY least("senderId", "recipientId"), greatest("senderId", "recipientId"), "createdAt" DESC
+      ) m
+      WHERE ma."userId1" = m."userId1" AND ma."userId2" = m."userId2"
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_83831d8217f7f837ffb088053b" ON "match" ("userId1", "lastActivityAt") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_a0a8388a33470a131c8dd81998" ON "match" ("userId2", "lastActivityAt") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_a0a8388a33470a131c8dd81998"`);
+    await queryRunner.query(`DROP INDEX "IDX_83831d8217f7f837ffb088053b"`);
+    await queryRunner.query(`ALTER TABLE "match" DROP COLUMN "lastActivityAt"`);
+    await queryRunner.query(`ALTER TABLE "match" DROP COLUMN "lastMessageAt"`);
+    await queryRunner.query(
+      `ALTER TABLE "match" DROP COLUMN "lastMessageText"`
+    );
+  }
+}
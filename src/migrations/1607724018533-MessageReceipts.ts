@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MessageReceipts1607724018533 implements MigrationInterface {
+  name = "MessageReceipts1607724018533";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "message" ADD "deliveredAt" TIMESTAMP WITH TIME ZONE`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "message" ADD "readAt" TIMESTAMP WITH TIME ZONE`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "message" DROP COLUMN "readAt"`);
+    await queryRunner.query(`ALTER TABLE "message" DROP COLUMN "deliveredAt"`);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MessageEditsAndReactions1607810527381
+  implements MigrationInterface
+{
+  name = "MessageEditsAndReactions1607810527381";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "message_reaction" ("messageId" uuid NOT NULL, "userId" uuid NOT NULL, "emoji" text NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_c871c8d2853d134cdde46be8d38" PRIMARY KEY ("messageId", "userId", "emoji"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "message" ADD "editedAt" TIMESTAMP WITH TIME ZONE`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "message" ADD "deletedAt" TIMESTAMP WITH TIME ZONE`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "message_reaction" ADD CONSTRAINT "FK_4418b4dacb57158842838039f30" FOREIGN KEY ("messageId") REFERENCES "message"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "message_reaction" ADD CONSTRAINT "FK_2773f1753769d807ebbd2aa11df" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "message_reaction" DROP CONSTRAINT "FK_2773f1753769d807ebbd2aa11df"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "message_reaction" DROP CONSTRAINT "FK_4418b4dacb57158842838039f30"`
+    );
+    await queryRunner.query(`ALTER TABLE "message" DROP COLUMN "deletedAt"`);
+    await queryRunner.query(`ALTER TABLE "message" DROP COLUMN "editedAt"`);
+    await queryRunner.query(`DROP TABLE "message_reaction"`);
+  }
+}
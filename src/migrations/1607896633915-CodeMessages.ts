@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CodeMessages1607896633915 implements MigrationInterface {
+  name = "CodeMessages1607896633915";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "message" ADD "type" text NOT NULL DEFAULT 'text'`
+    );
+    await queryRunner.query(`ALTER TABLE "message" ADD "code" text`);
+    await queryRunner.query(`ALTER TABLE "message" ADD "language" text`);
+    await queryRunner.query(`ALTER TABLE "message" ADD "filename" text`);
+    await queryRunner.query(
+      `ALTER TABLE "push_notification" ADD "language" text`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "push_notification" DROP COLUMN "language"`
+    );
+    await queryRunner.query(`ALTER TABLE "message" DROP COLUMN "filename"`);
+    await queryRunner.query(`ALTER TABLE "message" DROP COLUMN "language"`);
+    await queryRunner.query(`ALTER TABLE "message" DROP COLUMN "code"`);
+    await queryRunner.query(`ALTER TABLE "message" DROP COLUMN "type"`);
+  }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MessageSearch1607983041877 implements MigrationInterface {
+  name = "MessageSearch1607983041877";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE INDEX "IDX_message_search" ON "message" USING GIN (to_tsvector('english', "text" || ' ' || coalesce("code", '')))`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_message_search"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Block1608069457120 implements MigrationInterface {
+  name = "Block1608069457120";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "block" ("blockerId" uuid NOT NULL, "blockedId" uuid NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_f147961a77e760d035e5cb1f33a" PRIMARY KEY ("blockerId", "blockedId"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_d5c13d1ced558f476dd2268c4e" ON "block" ("blockedId") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "block" ADD CONSTRAINT "FK_9ebc8defd368bfbada61840691b" FOREIGN KEY ("blockerId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "block" ADD CONSTRAINT "FK_d5c13d1ced558f476dd2268c4eb" FOREIGN KEY ("blockedId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "block" DROP CONSTRAINT "FK_d5c13d1ced558f476dd2268c4eb"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "block" DROP CONSTRAINT "FK_9ebc8defd368bfbada61840691b"`
+    );
+    await queryRunner.query(`DROP INDEX "IDX_d5c13d1ced558f476dd2268c4e"`);
+    await queryRunner.query(`DROP TABLE "block"`);
+  }
+}
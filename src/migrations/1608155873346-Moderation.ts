@@ -0,0 +1,69 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Moderation1608155873346 implements MigrationInterface {
+  name = "Moderation1608155873346";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "moderation_action" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "action" text NOT NULL, "moderatorId" uuid, "targetId" uuid, "reportId" uuid, "reason" text NOT NULL DEFAULT '', "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_152a7fb29b5a2bfc5fa43a96806" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_8f034d96922129193f437acbc5" ON "moderation_action" ("targetId") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "banned" boolean NOT NULL DEFAULT false`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "role" text NOT NULL DEFAULT 'user'`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "report" ADD "status" text NOT NULL DEFAULT 'open'`
+    );
+    await queryRunner.query(`ALTER TABLE "report" ADD "resolvedById" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "report" ADD "resolvedAt" TIMESTAMP WITH TIME ZONE`
+    );
+    await queryRunner.query(`ALTER TABLE "report" ADD "resolutionNote" text`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_438d8701a680149fd52b141ed0" ON "report" ("status", "targetId") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "report" ADD CONSTRAINT "FK_b124e169f2e90e688c4570e4357" FOREIGN KEY ("resolvedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" ADD CONSTRAINT "FK_8bedfd87b343e51c497f0db4940" FOREIGN KEY ("moderatorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" ADD CONSTRAINT "FK_8f034d96922129193f437acbc56" FOREIGN KEY ("targetId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" ADD CONSTRAINT "FK_64cb2162b81e4f4c4d778f1ed2d" FOREIGN KEY ("reportId") REFERENCES "report"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" DROP CONSTRAINT "FK_64cb2162b81e4f4c4d778f1ed2d"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" DROP CONSTRAINT "FK_8f034d96922129193f437acbc56"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" DROP CONSTRAINT "FK_8bedfd87b343e51c497f0db4940"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "report" DROP CONSTRAINT "FK_b124e169f2e90e688c4570e4357"`
+    );
+    await queryRunner.query(`DROP INDEX "IDX_438d8701a680149fd52b141ed0"`);
+    await queryRunner.query(
+      `ALTER TABLE "report" DROP COLUMN "resolutionNote"`
+    );
+    await queryRunner.query(`ALTER TABLE "report" DROP COLUMN "resolvedAt"`);
+    await queryRunner.query(`ALTER TABLE "report" DROP COLUMN "resolvedById"`);
+    await queryRunner.query(`ALTER TABLE "report" DROP COLUMN "status"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "role"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "banned"`);
+    await queryRunner.query(`DROP INDEX "IDX_8f034d96922129193f437acbc5"`);
+    await queryRunner.query(`DROP TABLE "moderation_action"`);
+  }
+}
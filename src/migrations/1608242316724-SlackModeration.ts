@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class SlackModeration1608242316724 implements MigrationInterface {
+  name = "SlackModeration1608242316724";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "report" ADD "resolvedBySlackUser" text`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" ADD "slackUser" text`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" DROP COLUMN "slackUser"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "report" DROP COLUMN "resolvedBySlackUser"`
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AutoModeration1608328702815 implements MigrationInterface {
+  name = "AutoModeration1608328702815";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" ADD "automatic" boolean NOT NULL DEFAULT false`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" ADD "revertsActionId" uuid`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" DROP COLUMN "revertsActionId"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moderation_action" DROP COLUMN "automatic"`
+    );
+  }
+}
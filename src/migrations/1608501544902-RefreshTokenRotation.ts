@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class RefreshTokenRotation1608501544902 implements MigrationInterface {
+  name = "RefreshTokenRotation1608501544902";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "session" ADD "refreshTokenId" text`);
+    await queryRunner.query(
+      `ALTER TABLE "session" ADD "previousRefreshTokenId" text`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "session" ADD "rotatedAt" TIMESTAMP WITH TIME ZONE`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "session" DROP COLUMN "rotatedAt"`);
+    await queryRunner.query(
+      `ALTER TABLE "session" DROP COLUMN "previousRefreshTokenId"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "session" DROP COLUMN "refreshTokenId"`
+    );
+  }
+}
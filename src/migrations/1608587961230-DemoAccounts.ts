@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class DemoAccounts1608587961230 implements MigrationInterface {
+  name = "DemoAccounts1608587961230";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "demo_account" ("email" text NOT NULL, "passwordHash" text NOT NULL, "userId" uuid NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_5a531bf94e6925d5ab3d639e1bd" PRIMARY KEY ("email"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "isDemo" boolean NOT NULL DEFAULT false`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "demo_account" ADD CONSTRAINT "FK_5bd12aab814edb2070bcb07dfc5" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "demo_account" DROP CONSTRAINT "FK_5bd12aab814edb2070bcb07dfc5"`
+    );
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "isDemo"`);
+    await queryRunner.query(`DROP TABLE "demo_account"`);
+  }
+}
@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Identities1608674372511 implements MigrationInterface {
+  name = "Identities1608674372511";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "identity" ("provider" text NOT NULL, "providerId" text NOT NULL, "userId" uuid NOT NULL, "accessToken" text, "username" text, "profileUrl" text, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_5c36781835bcea03e3ea23945b3" PRIMARY KEY ("provider", "providerId"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_12915039d2868ab654567bf518" ON "identity" ("userId") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "identity" ADD CONSTRAINT "FK_12915039d2868ab654567bf5181" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `INSERT INTO "identity" ("provider", "providerId", "userId", "accessToken", "username", "profileUrl", "createdAt") SELECT 'github', "githubId", "id", "githubAccessToken", "username", "profileUrl", "createdAt" FROM "user" WHERE "githubId" IS NOT NULL`
+    );
+    await queryRunner.query(
+      `INSERT INTO "identity" ("provider", "providerId", "userId", "createdAt") SELECT 'apple', "appleId", "id", "createdAt" FROM "user" WHERE "appleId" IS NOT NULL`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP CONSTRAINT "UQ_0d84cc6a830f0e4ebbfcd6381dd"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP CONSTRAINT "UQ_909a03b328747bd46fc52eb66de"`
+    );
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "githubId"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "appleId"`);
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "githubAccessToken"`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user" ADD "githubAccessToken" text`);
+    await queryRunner.query(`ALTER TABLE "user" ADD "appleId" text`);
+    await queryRunner.query(`ALTER TABLE "user" ADD "githubId" text`);
+    await queryRunner.query(
+      `UPDATE "user" u SET "githubId" = i."providerId", "githubAccessToken" = i."accessToken" FROM "identity" i WHERE i."userId" = u.id AND i."provider" = 'github'`
+    );
+    await queryRunner.query(
+      `UPDATE "user" u SET "appleId" = i."providerId" FROM "identity" i WHERE i."userId" = u.id AND i."provider" = 'apple'`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD CONSTRAINT "UQ_909a03b328747bd46fc52eb66de" UNIQUE ("appleId")`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD CONSTRAINT "UQ_0d84cc6a830f0e4ebbfcd6381dd" UNIQUE ("githubId")`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "identity" DROP CONSTRAINT "FK_12915039d2868ab654567bf5181"`
+    );
+    await queryRunner.query(`DROP INDEX "IDX_12915039d2868ab654567bf518"`);
+    await queryRunner.query(`DROP TABLE "identity"`);
+  }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class FeedQueue1608760786094 implements MigrationInterface {
+  name = "FeedQueue1608760786094";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "feed" ADD "refreshedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "feed" DROP COLUMN "refreshedAt"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Compatibility1608847193517 implements MigrationInterface {
+  name = "Compatibility1608847193517";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "compatibility_profile" ("userId" uuid NOT NULL, "languages" jsonb NOT NULL DEFAULT '{}', "topics" text array NOT NULL DEFAULT '{}', "activity" real NOT NULL DEFAULT 0, "computedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_297c4b70db12e260f338ee55ded" PRIMARY KEY ("userId"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "compatibilityScoring" boolean NOT NULL DEFAULT true`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "compatibility_profile" ADD CONSTRAINT "FK_297c4b70db12e260f338ee55ded" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "compatibility_profile" DROP CONSTRAINT "FK_297c4b70db12e260f338ee55ded"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "compatibilityScoring"`
+    );
+    await queryRunner.query(`DROP TABLE "compatibility_profile"`);
+  }
+}
@@ -0,0 +1,970 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+// A copy of cities.ts and geocodeLocation from when this was written, so
+// changing either later doesn't change what this migration does. Names and
+// qualifiers are already normalized.
+interface SnapshotCity {
+  id: string;
+  lat: number;
+  lng: number;
+  country: string;
+  region?: string;
+  names: string[];
+  ambiguous?: boolean;
+}
+
+const CITIES: SnapshotCity[] = [
+  {
+    id: "new-york-us",
+    lat: 40.71,
+    lng: -74.01,
+    country: "US",
+    region: "NY",
+    names: ["new york", "nyc", "new york city", "manhattan", "brooklyn"],
+  },
+  {
+    id: "los-angeles-us",
+    lat: 34.05,
+    lng: -118.24,
+    country: "US",
+    region: "CA",
+    names: ["los angeles"],
+  },
+  {
+    id: "san-francisco-us",
+    lat: 37.77,
+    lng: -122.42,
+    country: "US",
+    region: "CA",
+    names: [
+      "san francisco",
+      "bay area",
+      "san francisco bay area",
+      "sf bay area",
+    ],
+  },
+  {
+    id: "san-jose-us",
+    lat: 37.34,
+    lng: -121.89,
+    country: "US",
+    region: "CA",
+    names: ["san jose", "silicon valley"],
+  },
+  {
+    id: "oakland-us",
+    lat: 37.8,
+    lng: -122.27,
+    country: "US",
+    region: "CA",
+    names: ["oakland"],
+  },
+  {
+    id: "seattle-us",
+    lat: 47.61,
+    lng: -122.33,
+    country: "US",
+    region: "WA",
+    names: ["seattle"],
+  },
+  {
+    id: "portland-us",
+    lat: 45.52,
+    lng: -122.68,
+    country: "US",
+    region: "OR",
+    names: ["portland", "pdx"],
+    ambiguous: true,
+  },
+  {
+    id: "san-diego-us",
+    lat: 32.72,
+    lng: -117.16,
+    country: "US",
+    region: "CA",
+    names: ["san diego"],
+  },
+  {
+    id: "sacramento-us",
+    lat: 38.58,
+    lng: -121.49,
+    country: "US",
+    region: "CA",
+    names: ["sacramento"],
+  },
+  {
+    id: "las-vegas-us",
+    lat: 36.17,
+    lng: -115.14,
+    country: "US",
+    region: "NV",
+    names: ["las vegas", "vegas"],
+  },
+  {
+    id: "phoenix-us",
+    lat: 33.45,
+    lng: -112.07,
+    country: "US",
+    region: "AZ",
+    names: ["phoenix"],
+  },
+  {
+    id: "salt-lake-city-us",
+    lat: 40.76,
+    lng: -111.89,
+    country: "US",
+    region: "UT",
+    names: ["salt lake city", "slc"],
+  },
+  {
+    id: "denver-us",
+    lat: 39.74,
+    lng: -104.99,
+    country: "US",
+    region: "CO",
+    names: ["denver"],
+  },
+  {
+    id: "boulder-us",
+    lat: 40.01,
+    lng: -105.27,
+    country: "US",
+    region: "CO",
+    names: ["boulder"],
+  },
+  {
+    id: "austin-us",
+    lat: 30.27,
+    lng: -97.74,
+    country: "US",
+    region: "TX",
+    names: ["austin", "atx"],
+  },
+  {
+    id: "dallas-us",
+    lat: 32.78,
+    lng: -96.8,
+    country: "US",
+    region: "TX",
+    names: ["dallas", "dfw", "dallas fort worth"],
+  },
+  {
+    id: "houston-us",
+    lat: 29.76,
+    lng: -95.37,
+    country: "US",
+    region: "TX",
+    names: ["houston"],
+  },
+  {
+    id: "san-antonio-us",
+    lat: 29.42,
+    lng: -98.49,
+    country: "US",
+    region: "TX",
+    names: ["san antonio"],
+  },
+  {
+    id: "minneapolis-us",
+    lat: 44.98,
+    lng: -93.27,
+    country: "US",
+    region: "MN",
+    names: ["minneapolis", "twin cities", "st paul"],
+  },
+  {
+    id: "chicago-us",
+    lat: 41.88,
+    lng: -87.63,
+    country: "US",
+    region: "IL",
+    names: ["chicago", "chi"],
+  },
+  {
+    id: "detroit-us",
+    lat: 42.33,
+    lng: -83.05,
+    country: "US",
+    region: "MI",
+    names: ["detroit"],
+  },
+  {
+    id: "columbus-us",
+    lat: 39.96,
+    lng: -83,
+    country: "US",
+    region: "OH",
+    names: ["columbus"],
+    ambiguous: true,
+  },
+  {
+    id: "pittsburgh-us",
+    lat: 40.44,
+    lng: -80,
+    country: "US",
+    region: "PA",
+    names: ["pittsburgh"],
+  },
+  {
+    id: "st-louis-us",
+    lat: 38.63,
+    lng: -90.2,
+    country: "US",
+    region: "MO",
+    names: ["st louis", "saint louis", "stl"],
+  },
+  {
+    id: "kansas-city-us",
+    lat: 39.1,
+    lng: -94.58,
+    country: "US",
+    region: "MO",
+    names: ["kansas city"],
+  },
+  {
+    id: "nashville-us",
+    lat: 36.16,
+    lng: -86.78,
+    country: "US",
+    region: "TN",
+    names: ["nashville"],
+  },
+  {
+    id: "atlanta-us",
+    lat: 33.75,
+    lng: -84.39,
+    country: "US",
+    region: "GA",
+    names: ["atlanta", "atl"],
+  },
+  {
+    id: "miami-us",
+    lat: 25.76,
+    lng: -80.19,
+    country: "US",
+    region: "FL",
+    names: ["miami"],
+  },
+  {
+    id: "orlando-us",
+    lat: 28.54,
+    lng: -81.38,
+    country: "US",
+    region: "FL",
+    names: ["orlando"],
+  },
+  {
+    id: "tampa-us",
+    lat: 27.95,
+    lng: -82.46,
+    country: "US",
+    region: "FL",
+    names: ["tampa"],
+  },
+  {
+    id: "raleigh-us",
+    lat: 35.78,
+    lng: -78.64,
+    country: "US",
+    region: "NC",
+    names: ["raleigh", "research triangle", "durham"],
+  },
+  {
+    id: "charlotte-us",
+    lat: 35.23,
+    lng: -80.84,
+    country: "US",
+    region: "NC",
+    names: ["charlotte"],
+  },
+  {
+    id: "washington-us",
+    lat: 38.91,
+    lng: -77.04,
+    country: "US",
+    region: "DC",
+    names: ["washington", "washington dc"],
+    ambiguous: true,
+  },
+  {
+    id: "baltimore-us",
+    lat: 39.29,
+    lng: -76.61,
+    country: "US",
+    region: "MD",
+    names: ["baltimore"],
+  },
+  {
+    id: "philadelphia-us",
+    lat: 39.95,
+    lng: -75.17,
+    country: "US",
+    region: "PA",
+    names: ["philadelphia", "philly"],
+  },
+  {
+    id: "boston-us",
+    lat: 42.36,
+    lng: -71.06,
+    country: "US",
+    region: "MA",
+    names: ["boston", "cambridge ma"],
+  },
+  {
+    id: "toronto-ca",
+    lat: 43.65,
+    lng: -79.38,
+    country: "CA",
+    region: "ON",
+    names: ["toronto", "gta"],
+  },
+  {
+    id: "montreal-ca",
+    lat: 45.5,
+    lng: -73.57,
+    country: "CA",
+    region: "QC",
+    names: ["montreal"],
+  },
+  {
+    id: "ottawa-ca",
+    lat: 45.42,
+    lng: -75.7,
+    country: "CA",
+    region: "ON",
+    names: ["ottawa"],
+  },
+  {
+    id: "vancouver-ca",
+    lat: 49.28,
+    lng: -123.12,
+    country: "CA",
+    region: "BC",
+    names: ["vancouver"],
+    ambiguous: true,
+  },
+  {
+    id: "calgary-ca",
+    lat: 51.05,
+    lng: -114.07,
+    country: "CA",
+    region: "AB",
+    names: ["calgary"],
+  },
+  {
+    id: "mexico-city-mx",
+    lat: 19.43,
+    lng: -99.13,
+    country: "MX",
+    names: ["mexico city", "cdmx", "ciudad de mexico"],
+  },
+  {
+    id: "guadalajara-mx",
+    lat: 20.66,
+    lng: -103.35,
+    country: "MX",
+    names: ["guadalajara"],
+  },
+  {
+    id: "sao-paulo-br",
+    lat: -23.55,
+    lng: -46.63,
+    country: "BR",
+    region: "SP",
+    names: ["sao paulo"],
+  },
+  {
+    id: "rio-de-janeiro-br",
+    lat: -22.91,
+    lng: -43.17,
+    country: "BR",
+    region: "RJ",
+    names: ["rio de janeiro", "rio"],
+  },
+  {
+    id: "buenos-aires-ar",
+    lat: -34.6,
+    lng: -58.38,
+    country: "AR",
+    names: ["buenos aires"],
+  },
+  {
+    id: "santiago-cl",
+    lat: -33.45,
+    lng: -70.67,
+    country: "CL",
+    names: ["santiago"],
+  },
+  { id: "bogota-co", lat: 4.71, lng: -74.07, country: "CO", names: ["bogota"] },
+  {
+    id: "medellin-co",
+    lat: 6.24,
+    lng: -75.58,
+    country: "CO",
+    names: ["medellin"],
+  },
+  { id: "lima-pe", lat: -12.05, lng: -77.04, country: "PE", names: ["lima"] },
+  {
+    id: "london-gb",
+    lat: 51.51,
+    lng: -0.13,
+    country: "GB",
+    names: ["london", "ldn"],
+  },
+  {
+    id: "manchester-gb",
+    lat: 53.48,
+    lng: -2.24,
+    country: "GB",
+    names: ["manchester"],
+  },
+  {
+    id: "edinburgh-gb",
+    lat: 55.95,
+    lng: -3.19,
+    country: "GB",
+    names: ["edinburgh"],
+  },
+  { id: "dublin-ie", lat: 53.35, lng: -6.26, country: "IE", names: ["dublin"] },
+  { id: "paris-fr", lat: 48.86, lng: 2.35, country: "FR", names: ["paris"] },
+  { id: "lyon-fr", lat: 45.76, lng: 4.84, country: "FR", names: ["lyon"] },
+  {
+    id: "amsterdam-nl",
+    lat: 52.37,
+    lng: 4.9,
+    country: "NL",
+    names: ["amsterdam"],
+  },
+  {
+    id: "rotterdam-nl",
+    lat: 51.92,
+    lng: 4.48,
+    country: "NL",
+    names: ["rotterdam"],
+  },
+  {
+    id: "brussels-be",
+    lat: 50.85,
+    lng: 4.35,
+    country: "BE",
+    names: ["brussels", "bruxelles"],
+  },
+  { id: "berlin-de", lat: 52.52, lng: 13.41, country: "DE", names: ["berlin"] },
+  {
+    id: "hamburg-de",
+    lat: 53.55,
+    lng: 9.99,
+    country: "DE",
+    names: ["hamburg"],
+  },
+  {
+    id: "munich-de",
+    lat: 48.14,
+    lng: 11.58,
+    country: "DE",
+    names: ["munich", "munchen", "muenchen"],
+  },
+  {
+    id: "frankfurt-de",
+    lat: 50.11,
+    lng: 8.68,
+    country: "DE",
+    names: ["frankfurt"],
+  },
+  {
+    id: "cologne-de",
+    lat: 50.94,
+    lng: 6.96,
+    country: "DE",
+    names: ["cologne", "koln", "koeln"],
+  },
+  {
+    id: "zurich-ch",
+    lat: 47.38,
+    lng: 8.54,
+    country: "CH",
+    names: ["zurich", "zuerich"],
+  },
+  {
+    id: "geneva-ch",
+    lat: 46.2,
+    lng: 6.14,
+    country: "CH",
+    names: ["geneva", "geneve"],
+  },
+  {
+    id: "vienna-at",
+    lat: 48.21,
+    lng: 16.37,
+    country: "AT",
+    names: ["vienna", "wien"],
+  },
+  {
+    id: "prague-cz",
+    lat: 50.08,
+    lng: 14.44,
+    country: "CZ",
+    names: ["prague", "praha"],
+  },
+  {
+    id: "warsaw-pl",
+    lat: 52.23,
+    lng: 21.01,
+    country: "PL",
+    names: ["warsaw", "warszawa"],
+  },
+  {
+    id: "krakow-pl",
+    lat: 50.06,
+    lng: 19.94,
+    country: "PL",
+    names: ["krakow", "cracow"],
+  },
+  {
+    id: "budapest-hu",
+    lat: 47.5,
+    lng: 19.04,
+    country: "HU",
+    names: ["budapest"],
+  },
+  {
+    id: "bucharest-ro",
+    lat: 44.43,
+    lng: 26.1,
+    country: "RO",
+    names: ["bucharest", "bucuresti"],
+  },
+  {
+    id: "copenhagen-dk",
+    lat: 55.68,
+    lng: 12.57,
+    country: "DK",
+    names: ["copenhagen", "kobenhavn"],
+  },
+  {
+    id: "stockholm-se",
+    lat: 59.33,
+    lng: 18.07,
+    country: "SE",
+    names: ["stockholm"],
+  },
+  { id: "oslo-no", lat: 59.91, lng: 10.75, country: "NO", names: ["oslo"] },
+  {
+    id: "helsinki-fi",
+    lat: 60.17,
+    lng: 24.94,
+    country: "FI",
+    names: ["helsinki"],
+  },
+  {
+    id: "tallinn-ee",
+    lat: 59.44,
+    lng: 24.75,
+    country: "EE",
+    names: ["tallinn"],
+  },
+  { id: "madrid-es", lat: 40.42, lng: -3.7, country: "ES", names: ["madrid"] },
+  {
+    id: "barcelona-es",
+    lat: 41.39,
+    lng: 2.17,
+    country: "ES",
+    names: ["barcelona", "bcn"],
+  },
+  {
+    id: "lisbon-pt",
+    lat: 38.72,
+    lng: -9.14,
+    country: "PT",
+    names: ["lisbon", "lisboa"],
+  },
+  { id: "porto-pt", lat: 41.15, lng: -8.61, country: "PT", names: ["porto"] },
+  {
+    id: "milan-it",
+    lat: 45.46,
+    lng: 9.19,
+    country: "IT",
+    names: ["milan", "milano"],
+  },
+  {
+    id: "rome-it",
+    lat: 41.9,
+    lng: 12.5,
+    country: "IT",
+    names: ["rome", "roma"],
+  },
+  { id: "athens-gr", lat: 37.98, lng: 23.73, country: "GR", names: ["athens"] },
+  {
+    id: "istanbul-tr",
+    lat: 41.01,
+    lng: 28.98,
+    country: "TR",
+    names: ["istanbul"],
+  },
+  {
+    id: "kyiv-ua",
+    lat: 50.45,
+    lng: 30.52,
+    country: "UA",
+    names: ["kyiv", "kiev"],
+  },
+  {
+    id: "moscow-ru",
+    lat: 55.76,
+    lng: 37.62,
+    country: "RU",
+    names: ["moscow", "moskva"],
+  },
+  {
+    id: "saint-petersburg-ru",
+    lat: 59.93,
+    lng: 30.34,
+    country: "RU",
+    names: ["saint petersburg", "st petersburg", "spb"],
+  },
+  { id: "cairo-eg", lat: 30.04, lng: 31.24, country: "EG", names: ["cairo"] },
+  { id: "lagos-ng", lat: 6.52, lng: 3.38, country: "NG", names: ["lagos"] },
+  {
+    id: "nairobi-ke",
+    lat: -1.29,
+    lng: 36.82,
+    country: "KE",
+    names: ["nairobi"],
+  },
+  {
+    id: "johannesburg-za",
+    lat: -26.2,
+    lng: 28.05,
+    country: "ZA",
+    names: ["johannesburg", "joburg", "jozi"],
+  },
+  {
+    id: "cape-town-za",
+    lat: -33.92,
+    lng: 18.42,
+    country: "ZA",
+    names: ["cape town"],
+  },
+  {
+    id: "tel-aviv-il",
+    lat: 32.09,
+    lng: 34.78,
+    country: "IL",
+    names: ["tel aviv"],
+  },
+  { id: "dubai-ae", lat: 25.2, lng: 55.27, country: "AE", names: ["dubai"] },
+  {
+    id: "bangalore-in",
+    lat: 12.97,
+    lng: 77.59,
+    country: "IN",
+    names: ["bangalore", "bengaluru", "blr"],
+  },
+  {
+    id: "mumbai-in",
+    lat: 19.08,
+    lng: 72.88,
+    country: "IN",
+    names: ["mumbai", "bombay"],
+  },
+  {
+    id: "delhi-in",
+    lat: 28.61,
+    lng: 77.21,
+    country: "IN",
+    names: ["delhi", "new delhi", "ncr", "gurgaon", "noida"],
+  },
+  {
+    id: "hyderabad-in",
+    lat: 17.39,
+    lng: 78.49,
+    country: "IN",
+    names: ["hyderabad"],
+  },
+  {
+    id: "chennai-in",
+    lat: 13.08,
+    lng: 80.27,
+    country: "IN",
+    names: ["chennai", "madras"],
+  },
+  { id: "pune-in", lat: 18.52, lng: 73.86, country: "IN", names: ["pune"] },
+  {
+    id: "singapore-sg",
+    lat: 1.35,
+    lng: 103.82,
+    country: "SG",
+    names: ["singapore"],
+  },
+  {
+    id: "kuala-lumpur-my",
+    lat: 3.14,
+    lng: 101.69,
+    country: "MY",
+    names: ["kuala lumpur"],
+  },
+  {
+    id: "jakarta-id",
+    lat: -6.21,
+    lng: 106.85,
+    country: "ID",
+    names: ["jakarta"],
+  },
+  {
+    id: "bangkok-th",
+    lat: 13.76,
+    lng: 100.5,
+    country: "TH",
+    names: ["bangkok"],
+  },
+  {
+    id: "manila-ph",
+    lat: 14.6,
+    lng: 120.98,
+    country: "PH",
+    names: ["manila", "metro manila"],
+  },
+  {
+    id: "ho-chi-minh-city-vn",
+    lat: 10.82,
+    lng: 106.63,
+    country: "VN",
+    names: ["ho chi minh city", "saigon", "hcmc"],
+  },
+  {
+    id: "hong-kong-hk",
+    lat: 22.32,
+    lng: 114.17,
+    country: "HK",
+    names: ["hong kong"],
+  },
+  {
+    id: "shanghai-cn",
+    lat: 31.23,
+    lng: 121.47,
+    country: "CN",
+    names: ["shanghai"],
+  },
+  {
+    id: "beijing-cn",
+    lat: 39.9,
+    lng: 116.41,
+    country: "CN",
+    names: ["beijing"],
+  },
+  {
+    id: "shenzhen-cn",
+    lat: 22.54,
+    lng: 114.06,
+    country: "CN",
+    names: ["shenzhen"],
+  },
+  {
+    id: "taipei-tw",
+    lat: 25.03,
+    lng: 121.57,
+    country: "TW",
+    names: ["taipei"],
+  },
+  { id: "seoul-kr", lat: 37.57, lng: 126.98, country: "KR", names: ["seoul"] },
+  { id: "tokyo-jp", lat: 35.68, lng: 139.69, country: "JP", names: ["tokyo"] },
+  { id: "osaka-jp", lat: 34.69, lng: 135.5, country: "JP", names: ["osaka"] },
+  {
+    id: "sydney-au",
+    lat: -33.87,
+    lng: 151.21,
+    country: "AU",
+    names: ["sydney", "syd"],
+  },
+  {
+    id: "melbourne-au",
+    lat: -37.81,
+    lng: 144.96,
+    country: "AU",
+    names: ["melbourne"],
+  },
+  {
+    id: "brisbane-au",
+    lat: -27.47,
+    lng: 153.03,
+    country: "AU",
+    names: ["brisbane"],
+  },
+  { id: "perth-au", lat: -31.95, lng: 115.86, country: "AU", names: ["perth"] },
+  {
+    id: "auckland-nz",
+    lat: -36.85,
+    lng: 174.76,
+    country: "NZ",
+    names: ["auckland", "akl"],
+  },
+  {
+    id: "wellington-nz",
+    lat: -41.29,
+    lng: 174.78,
+    country: "NZ",
+    names: ["wellington"],
+  },
+];
+
+const COUNTRY_NAMES: Record<string, string[]> = {
+  AE: ["uae", "unitedarabemirates"],
+  AR: ["argentina"],
+  AT: ["austria", "osterreich"],
+  AU: ["australia"],
+  BE: ["belgium", "belgique", "belgie"],
+  BR: ["brazil", "brasil"],
+  CA: ["canada"],
+  CH: ["switzerland", "schweiz", "suisse"],
+  CL: ["chile"],
+  CN: ["china"],
+  CO: ["colombia"],
+  CZ: ["czechia", "czechrepublic"],
+  DE: ["germany", "deutschland"],
+  DK: ["denmark", "danmark"],
+  EE: ["estonia", "eesti"],
+  EG: ["egypt"],
+  ES: ["spain", "espana"],
+  FI: ["finland", "suomi"],
+  FR: ["france"],
+  GB: ["uk", "unitedkingdom", "england", "scotland", "greatbritain"],
+  GR: ["greece"],
+  HK: ["hongkong"],
+  HU: ["hungary", "magyarorszag"],
+  ID: ["indonesia"],
+  IE: ["ireland"],
+  IL: ["israel"],
+  IN: ["india"],
+  IT: ["italy", "italia"],
+  JP: ["japan"],
+  KE: ["kenya"],
+  KR: ["korea", "southkorea"],
+  MX: ["mexico"],
+  MY: ["malaysia"],
+  NG: ["nigeria"],
+  NL: ["netherlands", "thenetherlands", "holland", "nederland"],
+  NO: ["norway", "norge"],
+  NZ: ["newzealand"],
+  PE: ["peru"],
+  PH: ["philippines"],
+  PL: ["poland", "polska"],
+  PT: ["portugal"],
+  RO: ["romania"],
+  RU: ["russia"],
+  SE: ["sweden", "sverige"],
+  SG: ["singapore"],
+  TH: ["thailand"],
+  TR: ["turkey", "turkiye"],
+  TW: ["taiwan"],
+  UA: ["ukraine"],
+  US: ["usa", "unitedstates", "unitedstatesofamerica", "america"],
+  VN: ["vietnam"],
+  ZA: ["southafrica"],
+};
+
+const REGION_NAMES: Record<string, string[]> = {
+  AB: ["alberta"],
+  AZ: ["arizona"],
+  BC: ["britishcolumbia"],
+  CA: ["california"],
+  CO: ["colorado"],
+  DC: ["districtofcolumbia"],
+  FL: ["florida"],
+  GA: ["georgia"],
+  IL: ["illinois"],
+  MA: ["massachusetts"],
+  MD: ["maryland"],
+  MI: ["michigan"],
+  MN: ["minnesota"],
+  MO: ["missouri"],
+  NC: ["northcarolina"],
+  NV: ["nevada"],
+  NY: ["newyork"],
+  OH: ["ohio"],
+  ON: ["ontario"],
+  OR: ["oregon"],
+  PA: ["pennsylvania"],
+  QC: ["quebec"],
+  RJ: ["riodejaneiro"],
+  SP: ["saopaulo"],
+  TN: ["tennessee"],
+  TX: ["texas"],
+  UT: ["utah"],
+  WA: ["washington"],
+};
+
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const compact = (text: string) => normalize(text).replace(/ /g, "");
+
+const geocode = (text: string) => {
+  const whole = normalize(text);
+  const named = CITIES.filter(
+    (c) => c.names.includes(whole) && !(c.ambiguous && c.names[0] === whole)
+  );
+  if (named.length === 1) {
+    return named[0];
+  }
+
+  const [first, ...rest] = text
+    .split(",")
+    .map(normalize)
+    .filter((x) => x);
+  if (!first || !rest.length) {
+    return null;
+  }
+  const qualified = CITIES.filter((c) => {
+    if (!c.names.includes(first)) {
+      return false;
+    }
+    const fits = [
+      compact(c.country),
+      ...(COUNTRY_NAMES[c.country] || []),
+      ...(c.region
+        ? [compact(c.region), ...(REGION_NAMES[c.region] || [])]
+        : []),
+    ];
+    return rest.every((q) => fits.includes(compact(q)));
+  });
+  return qualified.length === 1 ? qualified[0] : null;
+};
+
+export class Distance1608933605842 implements MigrationInterface {
+  name = "Distance1608933605842";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user" ADD "cityId" text`);
+    await queryRunner.query(`ALTER TABLE "user" ADD "latitude" real`);
+    await queryRunner.query(`ALTER TABLE "user" ADD "longitude" real`);
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "maxDistanceKm" integer NOT NULL DEFAULT 100`
+    );
+
+    // best effort, whatever doesn't geocode keeps matching on the text
+    const locations: Array<{ location: string }> = await queryRunner.query(
+      `SELECT DISTINCT "location" FROM "user" WHERE "location" IS NOT NULL`
+    );
+    for (const { location } of locations) {
+      const city = geocode(location);
+      if (city) {
+        await queryRunner.query(
+          `UPDATE "user" SET "cityId" = $1, "latitude" = $2, "longitude" = $3 WHERE "location" = $4`,
+          [city.id, city.lat, city.lng, location]
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "maxDistanceKm"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "longitude"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "latitude"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "cityId"`);
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ViewCreatedAt1609020018467 implements MigrationInterface {
+  name = "ViewCreatedAt1609020018467";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // existing views get a time long ago so none of them can be undone
+    await queryRunner.query(
+      `ALTER TABLE "view" ADD "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT to_timestamp(0)`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "view" ALTER COLUMN "createdAt" SET DEFAULT now()`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "view" DROP COLUMN "createdAt"`);
+  }
+}
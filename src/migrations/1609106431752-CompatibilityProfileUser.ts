@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CompatibilityProfileUser1609106431752
+  implements MigrationInterface {
+  name = "CompatibilityProfileUser1609106431752";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "compatibility_profile" ADD CONSTRAINT "REL_297c4b70db12e260f338ee55de" UNIQUE ("userId")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "compatibility_profile" DROP CONSTRAINT "REL_297c4b70db12e260f338ee55de"`
+    );
+  }
+}
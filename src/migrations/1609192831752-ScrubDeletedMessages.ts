@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ScrubDeletedMessages1609192831752 implements MigrationInterface {
+  name = "ScrubDeletedMessages1609192831752";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // deleting used to only clear the text, the code stayed behind
+    await queryRunner.query(
+      `UPDATE "message" SET "code" = NULL, "language" = NULL, "filename" = NULL WHERE "deletedAt" IS NOT NULL`
+    );
+  }
+
+  // the code is gone, there's nothing to put back
+  public async down(): Promise<void> {}
+}
@@ -0,0 +1,160 @@
+import { EntityManager, getConnection } from "typeorm";
+import { revokeSessions } from "./auth/sessions";
+import {
+  ModerationAction,
+  ModerationActionType,
+} from "./entities/ModerationAction";
+import { Report } from "./entities/Report";
+import { User } from "./entities/User";
+
+interface ActionContext {
+  moderatorId: string | null;
+  // who clicked the button when the action came from slack
+  slackUser?: string | null;
+  reason?: string;
+  reportId?: string | null;
+  automatic?: boolean;
+  revertsActionId?: string | null;
+}
+
+const logAction = (
+  em: EntityManager,
+  action: ModerationActionType,
+  targetId: string,
+  {
+    moderatorId,
+    slackUser = null,
+    reason = "",
+    reportId = null,
+    automatic = false,
+    revertsActionId = null,
+  }: ActionContext
+) =>
+  em.insert(ModerationAction, {
+    action,
+    targetId,
+    moderatorId,
+    slackUser,
+    reason,
+    reportId,
+    automatic,
+    revertsActionId,
+  });
+
+// runs in the caller's transaction when given one so several actions can
+// succeed or fail together
+const withTransaction = <T>(
+  outer: EntityManager | undefined,
+  fn: (em: EntityManager) => Promise<T>
+) => (outer ? fn(outer) : getConnection().transaction(fn));
+
+export const shadowBan = (
+  targetId: string,
+  ctx: ActionContext,
+  outer?: EntityManager
+) =>
+  withTransaction(outer, async (em) => {
+    await em.update(User, targetId, { shadowBanned: true });
+    await logAction(em, "shadow-ban", targetId, ctx);
+  });
+
+export const ban = async (
+  targetId: string,
+  ctx: ActionContext,
+  outer?: EntityManager
+) => {
+  await withTransaction(outer, async (em) => {
+    // bumping tokenVersion kills their refresh tokens
+    await em.update(User, targetId, {
+      banned: true,
+      tokenVersion: () => '"tokenVersion" + 1',
+    });
+    await logAction(em, "ban", targetId, ctx);
+  });
+  // access tokens and open websockets go with their sessions
+  await revokeSessions(targetId);
+};
+
+// also dismisses their open reports, see dismissOpenReports
+export const unban = (
+  targetId: string,
+  ctx: ActionContext,
+  outer?: EntityManager
+) =>
+  withTransaction(outer, async (em) => {
+    await em.update(User, targetId, { banned: false, shadowBanned: false });
+    await logAction(em, "unban", targetId, ctx);
+    await dismissOpenReports(em, targetId, { ...ctx, note: ctx.reason });
+  });
+
+// doesn't change anything about the user, just puts them in front of a person
+export const flagForReview = (targetId: string, ctx: ActionContext) =>
+  getConnection().transaction((em) =>
+    logAction(em, "flag-for-review", targetId, ctx)
+  );
+
+export const resetProfileImages = (
+  targetId: string,
+  ctx: ActionContext,
+  outer?: EntityManager
+) =>
+  withTransaction(outer, async (em) => {
+    // no code images also keeps them out of everyone's feed
+    await em.update(User, targetId, {
+      codeImgIds: [],
+      photoUrl: "https://via.placeholder.com/150x150",
+    });
+    await logAction(em, "reset-images", targetId, ctx);
+  });
+
+// only closes reports that are still open, so two moderators can't both act
+// on the same one
+export const closeReport = (
+  reportId: string,
+  status: "resolved" | "dismissed",
+  { note = "", ...ctx }: ActionContext & { note?: string },
+  outer?: EntityManager
+) =>
+  withTransaction(outer, async (em) => {
+    const report = await em.findOne(Report, reportId);
+    if (!report) {
+      return { report, alreadyClosed: false };
+    }
+
+    const { affected } = await em.update(
+      Report,
+      { id: reportId, status: "open" },
+      {
+        status,
+        resolvedById: ctx.moderatorId,
+        resolvedBySlackUser: ctx.slackUser || null,
+        resolvedAt: new Date(),
+        resolutionNote: note,
+      }
+    );
+    if (!affected) {
+      return { report, alreadyClosed: true };
+    }
+
+    await logAction(
+      em,
+      status === "resolved" ? "resolve-report" : "dismiss-report",
+      report.targetId,
+      { ...ctx, reason: note, reportId }
+    );
+
+    return { report, alreadyClosed: false };
+  });
+
+// open reports keep counting towards auto moderation, so taking back a ban has
+// to close the ones it was based on or the next report bans them again
+const dismissOpenReports = async (
+  em: EntityManager,
+  targetId: string,
+  ctx: ActionContext & { note?: string }
+) => {
+  const reports = await em.find(Report, { targetId, status: "open" });
+  for (const report of reports) {
+    await closeReport(report.id, "dismissed", ctx, em);
+  }
+};
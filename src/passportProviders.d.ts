@@ -0,0 +1,57 @@
+// neither package ships types, these cover the parts we use
+
+declare module "passport-gitlab2" {
+  import { Request } from "express";
+  import passport from "passport";
+
+  export interface StrategyOptions {
+    clientID: string;
+    clientSecret: string;
+    callbackURL: string;
+    baseURL?: string;
+    scope?: string | string[];
+    passReqToCallback: true;
+  }
+
+  export class Strategy implements passport.Strategy {
+    constructor(
+      options: StrategyOptions,
+      verify: (
+        req: Request,
+        accessToken: string,
+        refreshToken: string,
+        profile: any,
+        done: (err?: Error | null, user?: any) => void
+      ) => void
+    );
+    name: string;
+    authenticate(req: Request, options?: any): void;
+  }
+}
+
+declare module "passport-bitbucket-oauth2" {
+  import { Request } from "express";
+  import passport from "passport";
+
+  export interface StrategyOptions {
+    clientID: string;
+    clientSecret: string;
+    callbackURL: string;
+    passReqToCallback: true;
+  }
+
+  export class Strategy implements passport.Strategy {
+    constructor(
+      options: StrategyOptions,
+      verify: (
+        req: Request,
+        accessToken: string,
+        refreshToken: string,
+        profile: any,
+        done: (err?: Error | null, user?: any) => void
+      ) => void
+    );
+    name: string;
+    authenticate(req: Request, options?: any): void;
+  }
+}
@@ -1,19 +1,95 @@
-import { Expo, ExpoPushMessage } from "expo-server-sdk";
+import { Expo, ExpoPushMessage, ExpoPushTicket } from "expo-server-sdk";
 import { CronJob } from "cron";
+import { getConnection } from "typeorm";
 import { User } from "./entities/User";
+import { PushNotification } from "./entities/PushNotification";
+import { messagePreview } from "./codeLanguages";
 
 type Notif =
   | { type: "match"; idToSendTo: string; otherId: string }
-  | { type: "message"; idToSendTo: string; otherId: string; text: string };
+  | { type: "like"; idToSendTo: string; otherId: string }
+  | {
+      type: "message";
+      idToSendTo: string;
+      otherId: string;
+      text: string;
+      language?: string | null;
+    };
 
-let messages: Notif[] = [];
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 500;
+// expo says receipts are usually ready within 15 minutes
+const RECEIPT_DELAY_MINUTES = 15;
+// and that they are only kept for about a day
+const RECEIPT_GIVE_UP_HOURS = 24;
+// if an instance dies mid-send the rows become claimable again after this
+const CLAIM_LEASE_MINUTES = 5;
+
+const minutesFromNow = (m: number) => new Date(Date.now() + m * 60 * 1000);
+
+// 1, 2, 4, 8... minutes
+const backoff = (attempts: number) => minutesFromNow(2 ** (attempts - 1));
+
+const wantsNotif = (u: User, type: PushNotification["type"]) => {
+  switch (type) {
+    case "match":
+      return u.notifyMatches;
+    case "message":
+      return u.notifyMessages;
+    case "like":
+      return u.notifyLikes;
+  }
+};
+
+const parseTimeOfDay = (t: string) => {
+  const [h, m] = t.split(":").map((x) => parseInt(x));
+  return h * 60 + m;
+};
+
+// returns when the user's quiet hours end, or null if they aren't in them right now
+const getQuietHoursEnd = (u: User, now = new Date()) => {
+  if (!u.quietHoursStart || !u.quietHoursEnd) {
+    return null;
+  }
+
+  let hour: number;
+  let minute: number;
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: u.timezone,
+      hour: "numeric",
+      minute: "numeric",
+      hour12: false,
+    }).formatToParts(now);
+    hour = parseInt(parts.find((x) => x.type === "hour")!.value) % 24;
+    minute = parseInt(parts.find((x) => x.type === "minute")!.value);
+  } catch {
+    return null;
+  }
+
+  const current = hour * 60 + minute;
+  const start = parseTimeOfDay(u.quietHoursStart);
+  const end = parseTimeOfDay(u.quietHoursEnd);
+  const inQuietHours =
+    start <= end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  if (!inQuietHours) {
+    return null;
+  }
+
+  return new Date(now.getTime() + ((end - current + 1440) % 1440) * 60 * 1000);
+};
 
 const messagesToExpoMessages = async (
-  notifs: Notif[]
-): Promise<ExpoPushMessage[]> => {
-  const userIds = new Set();
+  notifs: PushNotification[]
+): Promise<{
+  toSend: Array<{ notif: PushNotification; message: ExpoPushMessage }>;
+  deferred: Array<{ notif: PushNotification; until: Date }>;
+}> => {
+  const userIds = new Set<string>();
   notifs.forEach((x) => {
-    userIds.add(x.idToSendTo);
+    userIds.add(x.userId);
     userIds.add(x.otherId);
   });
 
@@ -23,32 +99,259 @@ const messagesToExpoMessages = async (
     userMap[u.id] = u;
   });
 
-  const formattedNotifs: ExpoPushMessage[] = [];
+  const formattedNotifs: Array<{
+    notif: PushNotification;
+    message: ExpoPushMessage;
+  }> = [];
+  const deferred: Array<{ notif: PushNotification; until: Date }> = [];
 
   notifs.forEach((n) => {
-    const userToSendTo = userMap[n.idToSendTo];
+    const userToSendTo = userMap[n.userId];
     const otherUser = userMap[n.otherId];
 
-    if (!userToSendTo || !otherUser || !userToSendTo.pushToken) {
+    if (
+      !userToSendTo ||
+      !otherUser ||
+      !userToSendTo.pushToken ||
+      !wantsNotif(userToSendTo, n.type)
+    ) {
+      return;
+    }
+
+    const until = getQuietHoursEnd(userToSendTo);
+    if (until) {
+      deferred.push({ notif: n, until });
+      return;
+    }
+
+    if (n.type === "like") {
+      formattedNotifs.push({
+        notif: n,
+        message: {
+          to: userToSendTo.pushToken,
+          body: "Someone liked your profile",
+        },
+      });
       return;
     }
 
     if (n.type === "match") {
       formattedNotifs.push({
-        to: userToSendTo.pushToken,
-        body: `New match ${otherUser.displayName?.slice(0, 20)}`,
+        notif: n,
+        message: {
+          to: userToSendTo.pushToken,
+          body: `New match ${otherUser.displayName?.slice(0, 20)}`,
+        },
       });
       return;
     }
 
     formattedNotifs.push({
-      to: userToSendTo.pushToken,
-      title: `New message from ${otherUser.displayName?.slice(0, 20)}`,
-      body: n.text,
+      notif: n,
+      message: {
+        to: userToSendTo.pushToken,
+        title: `New message from ${otherUser.displayName?.slice(0, 20)}`,
+        // don't dump raw code into a notification
+        body: messagePreview(n.text, n.language),
+      },
     });
   });
 
-  return formattedNotifs;
+  return { toSend: formattedNotifs, deferred };
+};
+
+const clearPushToken = (userId: string, pushToken: string | null) =>
+  pushToken
+    ? User.update({ id: userId, pushToken }, { pushToken: null })
+    : Promise.resolve();
+
+// claims due rows so that other instances running the same cron skip them
+const claimDue = (status: "queued" | "sent") =>
+  getConnection()
+    .query(
+      `
+    update push_notification
+    set "nextAttemptAt" = $1
+    where id in (
+      select id from push_notification
+      where status = $2 and "nextAttemptAt" <= now()
+      order by "nextAttemptAt"
+      limit ${BATCH_SIZE}
+      for update skip locked
+    )
+    returning *
+  `,
+      [minutesFromNow(CLAIM_LEASE_MINUTES), status]
+    )
+    .then(([rows]: [PushNotification[]]) => rows);
+
+const retryOrFail = (n: PushNotification, error: string) => {
+  const attempts = n.attempts + 1;
+  return PushNotification.update(
+    n.id,
+    attempts >= MAX_ATTEMPTS
+      ? { status: "failed", attempts, lastError: error }
+      : {
+          status: "queued",
+          attempts,
+          lastError: error,
+          ticketId: null,
+          nextAttemptAt: backoff(attempts),
+        }
+  );
+};
+
+const handleTicket = async (
+  n: PushNotification,
+  pushToken: string,
+  ticket: ExpoPushTicket
+) => {
+  if (ticket.status === "ok") {
+    await PushNotification.update(n.id, {
+      status: "sent",
+      ticketId: ticket.id,
+      pushToken,
+      nextAttemptAt: minutesFromNow(RECEIPT_DELAY_MINUTES),
+    });
+    return;
+  }
+
+  console.error(ticket);
+  switch (ticket.details?.error) {
+    case "DeviceNotRegistered":
+      await clearPushToken(n.userId, pushToken);
+      await PushNotification.update(n.id, {
+        status: "failed",
+        lastError: ticket.details.error,
+      });
+      return;
+    case "MessageTooBig":
+    case "InvalidCredentials":
+      // retrying won't help
+      await PushNotification.update(n.id, {
+        status: "failed",
+        lastError: ticket.details.error,
+      });
+      return;
+    default:
+      await retryOrFail(n, ticket.details?.error || ticket.message);
+  }
+};
+
+const sendQueued = async (expo: Expo) => {
+  const notifs = await claimDue("queued");
+  if (!notifs.length) {
+    return;
+  }
+
+  const { toSend, deferred } = await messagesToExpoMessages(notifs);
+
+  // the user removed their push token, turned this kind of notification off
+  // or got deleted, nothing to send
+  const kept = new Set([
+    ...toSend.map((x) => x.notif.id),
+    ...deferred.map((x) => x.notif.id),
+  ]);
+  const unsendable = notifs.filter((n) => !kept.has(n.id));
+  if (unsendable.length) {
+    await PushNotification.delete(unsendable.map((n) => n.id));
+  }
+
+  // quiet hours don't count as a failed attempt
+  await Promise.all(
+    deferred.map(({ notif, until }) =>
+      PushNotification.update(notif.id, { nextAttemptAt: until })
+    )
+  );
+
+  // chunk ourselves so the tickets can be matched back to their rows
+  for (let i = 0; i < toSend.length; i += Expo.pushNotificationChunkSizeLimit) {
+    const chunk = toSend.slice(i, i + Expo.pushNotificationChunkSizeLimit);
+    try {
+      const tickets = await expo.sendPushNotificationsAsync(
+        chunk.map((x) => x.message)
+      );
+      await Promise.all(
+        tickets.map((t, idx) =>
+          handleTicket(chunk[idx].notif, chunk[idx].message.to as string, t)
+        )
+      );
+    } catch (error) {
+      console.error(error);
+      await Promise.all(chunk.map((x) => retryOrFail(x.notif, error.message)));
+    }
+  }
+};
+
+const checkReceipts = async (expo: Expo) => {
+  const notifs = await claimDue("sent");
+  if (!notifs.length) {
+    return;
+  }
+
+  const byTicketId: Record<string, PushNotification> = {};
+  notifs.forEach((n) => {
+    if (n.ticketId) {
+      byTicketId[n.ticketId] = n;
+    }
+  });
+
+  for (let ids of expo.chunkPushNotificationReceiptIds(
+    Object.keys(byTicketId)
+  )) {
+    let receipts;
+    try {
+      receipts = await expo.getPushNotificationReceiptsAsync(ids);
+    } catch (error) {
+      console.error(error);
+      continue;
+    }
+
+    const delivered: string[] = [];
+    for (let ticketId of ids) {
+      const n = byTicketId[ticketId];
+      const receipt = receipts[ticketId];
+      if (!receipt) {
+        // not ready yet, look again later unless expo has forgotten about it
+        if (
+          Date.now() - new Date(n.createdAt).getTime() >
+          RECEIPT_GIVE_UP_HOURS * 60 * 60 * 1000
+        ) {
+          delivered.push(n.id);
+        } else {
+          await PushNotification.update(n.id, {
+            nextAttemptAt: minutesFromNow(RECEIPT_DELAY_MINUTES),
+          });
+        }
+        continue;
+      }
+
+      if (receipt.status === "ok") {
+        delivered.push(n.id);
+        continue;
+      }
+
+      console.error(receipt);
+      if (receipt.details?.error === "DeviceNotRegistered") {
+        await clearPushToken(n.userId, n.pushToken);
+        await PushNotification.update(n.id, {
+          status: "failed",
+          lastError: receipt.details.error,
+        });
+      } else if (receipt.details?.error === "MessageRateExceeded") {
+        await retryOrFail(n, receipt.details.error);
+      } else {
+        await PushNotification.update(n.id, {
+          status: "failed",
+          lastError: receipt.details?.error || receipt.message,
+        });
+      }
+    }
+
+    if (delivered.length) {
+      await PushNotification.delete(delivered);
+    }
+  }
 };
 
 export const startPushNotificationRunner = () => {
@@ -58,30 +361,15 @@ export const startPushNotificationRunner = () => {
   new CronJob(
     "0 * * * * *",
     async () => {
-      if (!messages.length) {
-        return;
-      }
-      const tmpMessages = [...messages];
-      messages = [];
-      const chunks = expo.chunkPushNotifications(
-        await messagesToExpoMessages(tmpMessages)
-      );
-      for (let chunk of chunks) {
-        try {
-          let ticketChunk = await expo.sendPushNotificationsAsync(chunk);
-          ticketChunk.forEach((x) => {
-            if (x.status === "error") {
-              console.error(x);
-            }
-          });
-          // @todo
-          // NOTE: If a ticket contains an error code in ticket.details.error, you
-          // must handle it appropriately. The error codes are listed in the Expo
-          // documentation:
-          // https://docs.expo.io/push-notifications/sending-notifications/#individual-errors
-        } catch (error) {
-          console.error(error);
-        }
+      try {
+        await sendQueued(expo);
+        await checkReceipts(expo);
+        // failed rows are only kept around for debugging
+        await getConnection().query(
+          `delete from push_notification where status = 'failed' and "createdAt" < now() - interval '7 days'`
+        );
+      } catch (error) {
+        console.error(error);
       }
     },
     null,
@@ -90,6 +378,11 @@ export const startPushNotificationRunner = () => {
   );
 };
 
-export const queuePushNotifToSend = (m: Notif) => {
-  messages.push(m);
-};
+export const queuePushNotifToSend = (m: Notif) =>
+  PushNotification.insert({
+    userId: m.idToSendTo,
+    otherId: m.otherId,
+    type: m.type,
+    text: m.type === "message" ? m.text : null,
+    language: m.type === "message" ? m.language || null : null,
+  }).catch((err) => console.error(err));
@@ -0,0 +1,65 @@
+import { getConnection } from "typeorm";
+import { getLanguageName } from "../codeLanguages";
+import { Message } from "../entities/Message";
+
+export interface ReactionAggregate {
+  emoji: string;
+  count: number;
+  // whether userId is one of the people who reacted with it
+  me: boolean;
+}
+
+export const getReactionAggregates = async (
+  userId: string,
+  messageIds: string[]
+) => {
+  const byMessageId: Record<string, ReactionAggregate[]> = {};
+  if (!messageIds.length) {
+    return byMessageId;
+  }
+
+  const rows: Array<
+    ReactionAggregate & { messageId: string }
+  > = await getConnection().query(
+    `
+    select "messageId", emoji, count(*)::int "count", bool_or("userId" = $1) "me"
+    from message_reaction
+    where "messageId" = any($2)
+    group by "messageId", emoji
+    order by min("createdAt")
+  `,
+    [userId, messageIds]
+  );
+  rows.forEach(({ messageId, ...r }) => {
+    if (!(messageId in byMessageId)) {
+      byMessageId[messageId] = [];
+    }
+    byMessageId[messageId].push(r);
+  });
+
+  return byMessageId;
+};
+
+// what the client gets for a message: edit/delete flags, reaction counts and
+// rendering hints for code snippets
+export const formatMessages = async (userId: string, messages: Message[]) => {
+  const reactions = await getReactionAggregates(
+    userId,
+    messages.map((m) => m.id)
+  );
+
+  return messages.map((m) => ({
+    ...m,
+    edited: !!m.editedAt,
+    deleted: !!m.deletedAt,
+    reactions: reactions[m.id] || [],
+    codeHints:
+      m.type === "code" && m.code !== null && !m.deletedAt
+        ? {
+            languageName: getLanguageName(m.language),
+            lineCount: m.code.split("\n").length,
+            filename: m.filename,
+          }
+        : null,
+  }));
+};
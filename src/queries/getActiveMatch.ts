@@ -0,0 +1,5 @@
+import { Match } from "../entities/Match";
+import { getUserIdOrder } from "../utils";
+
+export const getActiveMatch = (userIdA: string, userIdB: string) =>
+  Match.findOne({ ...getUserIdOrder(userIdA, userIdB), unmatched: false });
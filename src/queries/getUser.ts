@@ -14,9 +14,20 @@ const meFields: Array<keyof User> = [
   "genderToShow",
   "goal",
   "location",
+  "cityId",
+  "latitude",
+  "longitude",
+  "maxDistanceKm",
   "ageRangeMax",
   "ageRangeMin",
   "birthday",
+  "notifyMatches",
+  "notifyMessages",
+  "notifyLikes",
+  "quietHoursStart",
+  "quietHoursEnd",
+  "timezone",
+  "compatibilityScoring",
 ];
 
 const quotedMeFields = meFields.map((x) => `"${x}"`).join(", ");
@@ -0,0 +1,10 @@
+import { Block } from "../entities/Block";
+
+// true if either user has blocked the other
+export const isBlocked = async (userIdA: string, userIdB: string) =>
+  (await Block.count({
+    where: [
+      { blockerId: userIdA, blockedId: userIdB },
+      { blockerId: userIdB, blockedId: userIdA },
+    ],
+  })) > 0;
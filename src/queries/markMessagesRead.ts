@@ -0,0 +1,29 @@
+import { getConnection } from "typeorm";
+
+// marks what otherId sent to readerId as read, up to and including
+// upToMessageId if given, and returns the createdAt of the newest one marked
+export const markMessagesRead = (
+  readerId: string,
+  otherId: string,
+  upToMessageId?: string
+): Promise<number | null> =>
+  getConnection()
+    .query(
+      `
+    update message
+    set "readAt" = now(), "deliveredAt" = coalesce("deliveredAt", now())
+    where "recipientId" = $1 and "senderId" = $2 and "readAt" is null
+    ${
+      upToMessageId
+        ? `and "createdAt" <= (select "createdAt" from message where id = $3 and "recipientId" = $4)`
+        : ""
+    }
+    returning date_part('epoch', "createdAt") * 1000 "createdAt"
+  `,
+      upToMessageId
+        ? [readerId, otherId, upToMessageId, readerId]
+        : [readerId, otherId]
+    )
+    .then(([rows]: [Array<{ createdAt: number }>]) =>
+      rows.length ? Math.max(...rows.map((x) => x.createdAt)) : null
+    );
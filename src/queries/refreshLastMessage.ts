@@ -0,0 +1,27 @@
+import { getConnection } from "typeorm";
+import { messagePreview } from "../codeLanguages";
+
+// keeps the /matches preview in sync after the newest message changes
+export const refreshLastMessage = async (matchId: string) => {
+  const [last]: Array<{
+    text: string;
+    language: string | null;
+    deletedAt: Date | null;
+  }> = await getConnection().query(
+    `
+    select text, language, "deletedAt" from message
+    where "matchId" = $1
+    order by "createdAt" desc
+    limit 1
+  `,
+    [matchId]
+  );
+  if (!last) {
+    return;
+  }
+
+  await getConnection().query(
+    `update match set "lastMessageText" = $1 where id = $2`,
+    [messagePreview(last.text, last.deletedAt ? null : last.language), matchId]
+  );
+};
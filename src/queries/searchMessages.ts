@@ -0,0 +1,61 @@
+import { getConnection } from "typeorm";
+
+// has to stay identical to the expression in the MessageSearch migration,
+// otherwise postgres won't use the index
+const searchDocument = `to_tsvector('english', m.text || ' ' || coalesce(m.code, ''))`;
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export const searchMessages = async (
+  userId: string,
+  q: string,
+  cursor?: number
+) => {
+  const rows = await getConnection().query(
+    `
+    select
+    json_build_object(
+      'id', m.id,
+      'senderId', m."senderId",
+      'recipientId', m."recipientId",
+      'type', m.type,
+      'text', m.text,
+      'language', m.language,
+      'createdAt', date_part('epoch', m."createdAt") * 1000
+    ) message,
+    ts_headline('english', m.text || ' ' || coalesce(m.code, ''), query, 'StartSel=<<, StopSel=>>, MaxFragments=2') snippet,
+    json_build_object(
+      'matchId', ma.id,
+      'userId', u.id,
+      'displayName', u."displayName",
+      'photoUrl', u."photoUrl",
+      'flair', u.flair
+    ) match,
+    date_part('epoch', m."createdAt") * 1000 "cursor"
+    from message m
+    cross join websearch_to_tsquery('english', $1) query
+    inner join match ma
+      on ma."userId1" = least(m."senderId", m."recipientId")
+      and ma."userId2" = greatest(m."senderId", m."recipientId")
+      and ma.unmatched = false
+    inner join "user" u
+      on u.id = case when m."senderId" = $2 then m."recipientId" else m."senderId" end
+    where (m."senderId" = $3 or m."recipientId" = $4)
+    and m."deletedAt" is null
+    and ${searchDocument} @@ query
+    ${cursor ? `and m."createdAt" < $5` : ""}
+    order by m."createdAt" desc
+    limit ${SEARCH_PAGE_SIZE + 1}
+  `,
+    [q, userId, userId, userId, ...(cursor ? [new Date(cursor)] : [])]
+  );
+
+  const page = rows.slice(0, SEARCH_PAGE_SIZE);
+  const hasMore = rows.length === SEARCH_PAGE_SIZE + 1;
+
+  return {
+    results: page.map(({ cursor: _, ...r }: any) => r),
+    hasMore,
+    nextCursor: hasMore ? page[page.length - 1].cursor : null,
+  };
+};
@@ -0,0 +1,73 @@
+import createError from "http-errors";
+import { getConnection } from "typeorm";
+import { getUserIdOrder } from "../utils";
+
+export const VIEW_UNDO_WINDOW_MINUTES = 5;
+
+// takes back viewerId's last swipe if it was in the last few minutes. a match
+// it made goes with it, unless the other person already wrote something
+export const undoLastView = (viewerId: string) =>
+  getConnection().transaction(async (em) => {
+    const [view]: Array<{
+      targetId: string;
+      liked: boolean;
+    }> = await em.query(
+      `
+      select "targetId", liked from view
+      where "viewerId" = $1 and "createdAt" > now() - $2 * interval '1 minute'
+      order by "createdAt" desc
+      limit 1
+      for update
+    `,
+      [viewerId, VIEW_UNDO_WINDOW_MINUTES]
+    );
+    if (!view) {
+      throw createError(404, "there's no recent swipe to undo");
+    }
+    const { targetId, liked } = view;
+
+    const { userId1, userId2 } = getUserIdOrder(viewerId, targetId);
+    const [match]: Array<{
+      id: string;
+    }> = await em.query(
+      `select id from match where "userId1" = $1 and "userId2" = $2 for update`,
+      [userId1, userId2]
+    );
+    if (match) {
+      const [{ theyWrote }] = await em.query(
+        `
+        select exists (
+          select 1 from message where "matchId" = $1 and "senderId" = $2
+        ) "theyWrote"
+      `,
+        [match.id, targetId]
+      );
+      if (theyWrote) {
+        throw createError(400, "they already messaged you, unmatch instead");
+      }
+      await em.query(`delete from message where "matchId" = $1`, [match.id]);
+      await em.query(`delete from match where id = $1`, [match.id]);
+    }
+
+    await em.query(
+      `delete from view where "viewerId" = $1 and "targetId" = $2`,
+      [viewerId, targetId]
+    );
+    if (liked) {
+      await em.query(
+        `update "user" set "numLikes" = greatest("numLikes" - 1, 0) where id = $1`,
+        [targetId]
+      );
+      // as far as they're concerned the like never happened
+      await em.query(
+        `
+        delete from push_notification
+        where "userId" = $1 and "otherId" = $2
+        and status = 'queued' and type in ('like', 'match')
+      `,
+        [targetId, viewerId]
+      );
+    }
+
+    return { targetId, liked, unmatched: !!match };
+  });
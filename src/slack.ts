@@ -0,0 +1,244 @@
+import fetch from "node-fetch";
+import { getConnection } from "typeorm";
+import { Report } from "./entities/Report";
+import { User } from "./entities/User";
+import {
+  closeReport,
+  resetProfileImages,
+  shadowBan,
+  unban,
+} from "./moderation";
+
+const button = (
+  action_id: string,
+  text: string,
+  value: string,
+  style?: "primary" | "danger"
+) => ({
+  type: "button",
+  action_id,
+  text: {
+    type: "plain_text",
+    emoji: true,
+    text,
+  },
+  ...(style ? { style } : {}),
+  value,
+});
+
+export const sendReportToSlack = async (
+  report: Report,
+  unmatchOrReject: string
+) => {
+  const u = await User.findOne(report.targetId);
+  await fetch(process.env.SLACK_REPORT_URL, {
+    method: "post",
+    headers: {
+      "Content-type": "application/json",
+    },
+    body: JSON.stringify({
+      blocks: [
+        {
+          type: "section",
+          fields: [
+            {
+              type: "mrkdwn",
+              text: "*Reporter id:*\n" + report.reporterId,
+            },
+            {
+              type: "mrkdwn",
+              text: "*Target id:*\n" + report.targetId,
+            },
+            {
+              type: "mrkdwn",
+              text: "*type:*\n" + unmatchOrReject,
+            },
+            {
+              type: "mrkdwn",
+              text: "*message:*\n" + report.message,
+            },
+          ],
+        },
+        ...(u?.codeImgIds.map((id) => ({
+          type: "image",
+          title: {
+            type: "plain_text",
+            text: id,
+            emoji: true,
+          },
+          image_url: `https://img.vsinder.com/${id}`,
+          alt_text: "code",
+        })) || []),
+        ...(u?.photoUrl
+          ? [
+              {
+                type: "image",
+                title: {
+                  type: "plain_text",
+                  text: u.displayName + " | " + u.photoUrl,
+                  emoji: true,
+                },
+                image_url: u.photoUrl,
+                alt_text: "code",
+              },
+            ]
+          : []),
+        {
+          type: "actions",
+          elements: [
+            button("shadow-ban", "shadow ban", report.id, "primary"),
+            button("reset-images", "reset profile images", report.id),
+            button("dismiss", "dismiss", report.id),
+            button("unban", "unban", report.id, "danger"),
+            button("view-reports", "view prior reports", report.id),
+          ],
+        },
+      ],
+    }),
+  });
+};
+
+const priorReportsText = async (targetId: string) => {
+  const reports: Array<{
+    message: string;
+    status: string;
+    createdAt: Date;
+  }> = await getConnection().query(
+    `
+    select message, status, "createdAt"
+    from report
+    where "targetId" = $1
+    order by "createdAt" desc
+    limit 20
+  `,
+    [targetId]
+  );
+
+  return [
+    `*${reports.length} report(s) against ${targetId}:*`,
+    ...reports.map(
+      (r) =>
+        `• ${new Date(r.createdAt).toISOString().slice(0, 10)} [${r.status}] ${
+          r.message || "_no message_"
+        }`
+    ),
+  ].join("\n");
+};
+
+const outcomes: Record<string, string> = {
+  "shadow-ban": "shadow banned",
+  "reset-images": "profile images reset",
+  dismiss: "dismissed",
+  unban: "unbanned",
+};
+
+export const handleSlackAction = async (
+  payload: any,
+  respond: (message: any) => Promise<unknown>
+) => {
+  if (!payload.actions || !payload.actions.length) {
+    respond({ text: "no actions?" });
+    return;
+  }
+
+  const [{ action_id, value }] = payload.actions;
+  const slackUser: string =
+    payload.user?.username || payload.user?.name || payload.user?.id || "";
+  const ctx = { moderatorId: null, slackUser, reason: "slack" };
+
+  try {
+    const report = await Report.findOne(value);
+    if (!report) {
+      // messages sent before reports had ids in their buttons
+      if (action_id === "shadow-ban") {
+        await shadowBan(value, ctx);
+        respond({ text: "banned" });
+      } else {
+        respond({ text: "report not found", replace_original: false });
+      }
+      return;
+    }
+
+    if (action_id === "view-reports") {
+      respond({
+        response_type: "ephemeral",
+        replace_original: false,
+        text: await priorReportsText(report.targetId),
+      });
+      return;
+    }
+
+    if (!(action_id in outcomes)) {
+      return;
+    }
+
+    // closing the report and acting on it happen together or not at all
+    const { alreadyClosed } = await getConnection().transaction(async (em) => {
+      // unban undoes an earlier decision so it doesn't need the report open,
+      // it dismisses whatever other reports are still open
+      if (action_id === "unban") {
+        await closeReport(
+          report.id,
+          "resolved",
+          { ...ctx, note: "unbanned" },
+          em
+        );
+        await unban(report.targetId, { ...ctx, reportId: report.id }, em);
+        return { alreadyClosed: false };
+      }
+
+      const closed = await closeReport(
+        report.id,
+        action_id === "dismiss" ? "dismissed" : "resolved",
+        { ...ctx, note: outcomes[action_id] },
+        em
+      );
+      if (closed.alreadyClosed) {
+        return closed;
+      }
+      if (action_id === "shadow-ban") {
+        await shadowBan(report.targetId, { ...ctx, reportId: report.id }, em);
+      } else if (action_id === "reset-images") {
+        await resetProfileImages(
+          report.targetId,
+          { ...ctx, reportId: report.id },
+          em
+        );
+      }
+      return closed;
+    });
+    if (alreadyClosed) {
+      const current = await Report.findOne(report.id);
+      respond({
+        response_type: "ephemeral",
+        replace_original: false,
+        text: `already ${current?.status} by ${
+          current?.resolvedBySlackUser || "an admin"
+        }`,
+      });
+      return;
+    }
+
+    // swap the buttons for the outcome so nobody else acts on it
+    respond({
+      replace_original: true,
+      text: `${outcomes[action_id]} by ${slackUser}`,
+      blocks: [
+        ...(payload.message?.blocks || []).filter(
+          (b: any) => b.type !== "actions"
+        ),
+        {
+          type: "context",
+          elements: [
+            {
+              type: "mrkdwn",
+              text: `*${outcomes[action_id]}* by ${slackUser}`,
+            },
+          ],
+        },
+      ],
+    });
+  } catch (err) {
+    respond({ text: "Something went wrong: " + err.message });
+  }
+};
@@ -13,3 +13,9 @@ export const getUserIdOrder = (...uuids: string[]) => {
 
   return { userId1, userId2 };
 };
+
+// tuning knobs read from the env, anything unset or unparseable is the default
+export const envNumber = (v: string | undefined, fallback: number) => {
+  const n = v ? parseFloat(v) : NaN;
+  return Number.isFinite(n) ? n : fallback;
+};
@@ -11,14 +11,37 @@ import {
   optional,
   enums,
   nullable,
+  literal,
+  union,
+  type,
 } from "superstruct";
 import isUuid from "is-uuid";
+import { codeLanguageIds } from "./codeLanguages";
 
 const IntegerRange = (a: number, b: number) =>
   refinement(number(), `IntegerRange<${a}, ${b}>`, (value) => {
     return Number.isInteger(value) && value > a && value < b;
   });
-const Uuid = struct("Uuid", (v) => isUuid.v4(v as string));
+const Latitude = refinement(
+  number(),
+  "Latitude",
+  (value) => value >= -90 && value <= 90
+);
+const Longitude = refinement(
+  number(),
+  "Longitude",
+  (value) => value >= -180 && value <= 180
+);
+const Uuid = struct<string>("Uuid", (v) => isUuid.v4(v as string));
+const TimeOfDay = pattern(string(), /^([01]\d|2[0-3]):[0-5]\d$/);
+const TimeZone = refinement(string(), "TimeZone", (value) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+});
 
 export const UpdateUser = object({
   displayName: length(string(), 0, 51),
@@ -27,6 +50,11 @@ export const UpdateUser = object({
   genderToShow: length(string(), 0, 51),
   goal: length(string(), 0, 51),
   location: length(string(), -1, 201),
+  // one of these places the location, see locations.ts
+  cityId: optional(nullable(length(string(), 0, 101))),
+  latitude: optional(nullable(Latitude)),
+  longitude: optional(nullable(Longitude)),
+  maxDistanceKm: optional(IntegerRange(0, 20038)),
   global: boolean(),
   birthday: pattern(string(), /^\d\d\d\d-\d\d-\d\d$/),
   ageRangeMax: IntegerRange(17, 151),
@@ -39,6 +67,19 @@ export const UpdatePushTokenStruct = object({
   pushToken: nullable(optional(string())),
 });
 
+export const NotificationSettingsStruct = object({
+  notifyMatches: boolean(),
+  notifyMessages: boolean(),
+  notifyLikes: boolean(),
+  quietHoursStart: nullable(TimeOfDay),
+  quietHoursEnd: nullable(TimeOfDay),
+  timezone: TimeZone,
+});
+
+export const CompatibilitySettingsStruct = object({
+  compatibilityScoring: boolean(),
+});
+
 export const UserCodeImgs = object({
   codeImgIds: length(
     array(length(pattern(string(), /^[\.a-z0-9\-]+$/), 0, 30)),
@@ -47,6 +88,10 @@ export const UserCodeImgs = object({
   ),
 });
 
+export const CitySearchStruct = object({
+  q: length(string(), 0, 101),
+});
+
 export const OneUserStruct = object({
   id: Uuid,
 });
@@ -56,10 +101,49 @@ export const ViewStruct = object({
   liked: boolean(),
 });
 
-export const MessageStruct = object({
-  recipientId: Uuid,
+export const MessageStruct = union([
+  object({
+    recipientId: Uuid,
+    type: optional(literal("text")),
+    text: length(string(), 0, 2001),
+    // filled in from the server side match, only checked if sent
+    matchId: optional(Uuid),
+  }),
+  object({
+    recipientId: Uuid,
+    type: literal("code"),
+    text: optional(length(string(), 0, 2001)),
+    code: length(string(), 1, 10001),
+    language: enums(codeLanguageIds),
+    filename: optional(length(pattern(string(), /^[^\/\\]+$/), 0, 101)),
+    matchId: optional(Uuid),
+  }),
+]);
+
+export const OneMessageStruct = object({
+  id: Uuid,
+});
+
+export const OneSessionStruct = object({
+  id: Uuid,
+});
+
+export const EditMessageStruct = object({
   text: length(string(), 0, 2001),
-  matchId: Uuid,
+});
+
+// exactly one emoji: a flag, a keycap, or pictographs joined with ZWJ, each
+// with an optional skin tone or variation selector (and tags for the
+// subdivision flags)
+const SingleEmoji = /^(?:\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*[\u{E0020}-\u{E007E}]*\u{E007F}?)$/u;
+
+export const ReactionStruct = object({
+  emoji: length(pattern(string(), SingleEmoji), 0, 33),
+});
+
+export const SearchMessagesStruct = object({
+  q: length(string(), 0, 201),
+  cursor: optional(number()),
 });
 
 export const GetMessageStruct = object({
@@ -67,12 +151,93 @@ export const GetMessageStruct = object({
   cursor: optional(number()),
 });
 
+// <lastActivityAt in microseconds>_<match id>
+export const MatchesCursorStruct = pattern(
+  string(),
+  /^\d+_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+);
+
 export const UnmatchStruct = object({
   userId: Uuid,
 });
 
+export const BlockStruct = object({
+  userId: Uuid,
+});
+
 export const ReportStruct = object({
   unmatchOrReject: enums(["unmatch", "reject"]),
   userId: Uuid,
   message: length(string(), 0, 2001),
 });
+
+export const TypingEventStruct = object({
+  type: literal("typing"),
+  userId: Uuid,
+});
+
+export const ReadUpToEventStruct = object({
+  type: literal("read-up-to"),
+  userId: Uuid,
+  messageId: Uuid,
+});
+
+export const OneReportStruct = object({
+  id: Uuid,
+});
+
+export const OneModerationActionStruct = object({
+  id: Uuid,
+});
+
+export const AdminReportsQueryStruct = object({
+  status: enums(["open", "resolved", "dismissed"]),
+  page: IntegerRange(-1, 10000),
+});
+
+export const AdminActionsQueryStruct = object({
+  targetId: optional(Uuid),
+  page: IntegerRange(-1, 10000),
+});
+
+export const ModerationNoteStruct = object({
+  note: optional(length(string(), 0, 2001)),
+});
+
+export const ModerationReasonStruct = object({
+  reason: optional(length(string(), 0, 2001)),
+});
+
+// the app spreads the whole apple credential in here, so extra keys are fine
+export const AppleLoginStruct = type({
+  identityToken: length(string(), 1, 10000),
+  // what the app passed to apple, it comes back inside the token
+  nonce: length(string(), 16, 256),
+  fullName: optional(
+    nullable(
+      type({
+        givenName: optional(nullable(string())),
+      })
+    )
+  ),
+});
+
+export const LinkAppleStruct = type({
+  identityToken: length(string(), 1, 10000),
+  nonce: length(string(), 16, 256),
+  // if the apple account already has its own user, fold it into this one
+  merge: optional(boolean()),
+});
+
+export const LinkOAuthStruct = object({
+  rn: optional(boolean()),
+  merge: optional(boolean()),
+});
+
+export const ConfirmLinkStruct = object({
+  code: string(),
+});
+
+export const UnlinkStruct = object({
+  provider: enums(["github", "gitlab", "bitbucket", "apple"]),
+});
@@ -0,0 +1,175 @@
+import { randomBytes } from "crypto";
+import { Redis } from "ioredis";
+import WebSocket from "ws";
+
+// how long a presence key lives without being refreshed by its instance
+const PRESENCE_TTL_SECONDS = 90;
+const HEARTBEAT_MS = 30 * 1000;
+
+const presenceKey = (userId: string) => `ws/presence/${userId}`;
+const openChatKey = (userId: string) => `ws/open-chat/${userId}`;
+const instanceChannel = (instanceId: string) => `ws/instance/${instanceId}`;
+
+// only delete the presence key if it still belongs to this instance,
+// the user might have reconnected to another one in the meantime
+const DELETE_IF_OWNED = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  redis.call("del", KEYS[1], KEYS[2])
+end
+return 1
+`;
+
+export type WsHub = ReturnType<typeof createWsHub>;
+
+export const createWsHub = ({
+  redisClient,
+  subClient,
+}: {
+  redisClient: Redis;
+  subClient: Redis;
+}) => {
+  const instanceId = randomBytes(8).toString("hex");
+  const localUsers: Record<string, WebSocket> = {};
+  // which login session each socket was opened with
+  const socketSessions = new WeakMap<WebSocket, string | undefined>();
+
+  const sendLocal = (userId: string, v: any) => {
+    if (userId in localUsers) {
+      localUsers[userId].send(JSON.stringify(v));
+      return true;
+    }
+    return false;
+  };
+
+  // undefined sessionIds closes the socket no matter which session it has
+  const closeLocal = (userId: string, sessionIds?: string[]) => {
+    const ws = localUsers[userId];
+    if (!ws) {
+      return false;
+    }
+    const sessionId = socketSessions.get(ws);
+    if (sessionIds && (!sessionId || !sessionIds.includes(sessionId))) {
+      return false;
+    }
+    ws.close(4001, "session revoked");
+    return true;
+  };
+
+  subClient.subscribe(instanceChannel(instanceId));
+  subClient.on("message", (_channel: string, raw: string) => {
+    try {
+      const { userId, v, close } = JSON.parse(raw);
+      if (close) {
+        closeLocal(userId, close.sessionIds);
+      } else {
+        sendLocal(userId, v);
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  });
+
+  setInterval(() => {
+    const userIds = Object.keys(localUsers);
+    if (!userIds.length) {
+      return;
+    }
+    const pipeline = redisClient.pipeline();
+    userIds.forEach((userId) => {
+      pipeline.set(presenceKey(userId), instanceId, "EX", PRESENCE_TTL_SECONDS);
+      pipeline.expire(openChatKey(userId), PRESENCE_TTL_SECONDS);
+    });
+    pipeline.exec().catch(console.error);
+  }, HEARTBEAT_MS);
+
+  const addSocket = async (
+    userId: string,
+    ws: WebSocket,
+    sessionId?: string
+  ) => {
+    localUsers[userId] = ws;
+    socketSessions.set(ws, sessionId);
+    await redisClient
+      .pipeline()
+      .set(presenceKey(userId), instanceId, "EX", PRESENCE_TTL_SECONDS)
+      .del(openChatKey(userId))
+      .exec();
+  };
+
+  const removeSocket = async (userId: string, ws: WebSocket) => {
+    // a newer socket for the same user replaced this one
+    if (localUsers[userId] !== ws) {
+      return;
+    }
+    delete localUsers[userId];
+    await redisClient.eval(
+      DELETE_IF_OWNED,
+      2,
+      presenceKey(userId),
+      openChatKey(userId),
+      instanceId
+    );
+  };
+
+  const publishToOwner = (userId: string, payload: any) =>
+    redisClient
+      .get(presenceKey(userId))
+      .then((owner) => {
+        if (owner && owner !== instanceId) {
+          return redisClient.publish(
+            instanceChannel(owner),
+            JSON.stringify({ userId, ...payload })
+          );
+        }
+        return;
+      })
+      .catch(console.error);
+
+  const wsSend = (userId: string, v: any) => {
+    if (sendLocal(userId, v)) {
+      return;
+    }
+    publishToOwner(userId, { v });
+  };
+
+  const closeSessions = (userId: string, sessionIds?: string[]) => {
+    if (closeLocal(userId, sessionIds)) {
+      return;
+    }
+    publishToOwner(userId, { close: { sessionIds } });
+  };
+
+  const isOnline = async (userId: string) =>
+    userId in localUsers || !!(await redisClient.exists(presenceKey(userId)));
+
+  const getOpenChatUserId = (userId: string) =>
+    redisClient.get(openChatKey(userId));
+
+  const setOpenChatUserId = async (
+    userId: string,
+    openChatUserId: string | null
+  ) => {
+    if (!openChatUserId) {
+      await redisClient.del(openChatKey(userId));
+      return;
+    }
+    if (await isOnline(userId)) {
+      await redisClient.set(
+        openChatKey(userId),
+        openChatUserId,
+        "EX",
+        PRESENCE_TTL_SECONDS
+      );
+    }
+  };
+
+  return {
+    addSocket,
+    removeSocket,
+    wsSend,
+    closeSessions,
+    isOnline,
+    getOpenChatUserId,
+    setOpenChatUserId,
+  };
+};